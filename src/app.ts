@@ -1,13 +1,45 @@
 #!/usr/bin/env bun
+import { statSync } from "node:fs";
+import { readdir, stat } from "node:fs/promises";
+import { join, resolve } from "node:path";
 import { Command } from "commander";
 import { z } from "zod";
-import { parseHCL } from "./parser/parser";
-import { validateHCL } from "./validation/validator";
-import { writeYAML } from "./converters/converter";
-import { parseDirective } from "./directives/parser";
+import {
+  DUPLICATE_BLOCK_POLICIES,
+  type HCLSource,
+  type HCLValue,
+  parseHCL,
+  parseHCLFiles,
+} from "./parser/parser";
+import { HCLErrorList, HCLParseError } from "./parser/errors";
+import { formatHCL } from "./formatter/formatter";
+import { SchemaValidationError, validateHCL } from "./validation/validator";
+import {
+  formatExtensions,
+  formatForPath,
+  formatNames,
+  getFormat,
+} from "./converters/formats";
+import { toYAMLStream } from "./converters/converter";
+import { toJSON } from "./converters/json";
+import {
+  dashboardEnvelope,
+  layoutDashboard,
+} from "./converters/services/grafana";
+import { detectService, loadYAML, writeHCL } from "./converters/hcl";
+import {
+  type ServiceType,
+  isValidServiceType,
+  parseDirective,
+} from "./directives/parser";
 import { validateCloudFormation } from "./validation/services/cloudformation";
 import { validateGrafana } from "./validation/services/grafana";
-import { validateKubernetes } from "./validation/services/kubernetes";
+import {
+  kubernetesDocuments,
+  validateKubernetes,
+} from "./validation/services/kubernetes";
+import { attachComments, getComments } from "./parser/comments";
+import { CONFIG_FILE, loadConfig } from "./config/config";
 
 // Read version from package.json
 const packageJsonPath = new URL("../package.json", import.meta.url).pathname;
@@ -20,21 +52,353 @@ async function fileExists(path: string): Promise<boolean> {
   return await file.exists();
 }
 
-// Zod schema for CLI arguments validation
-const cliArgsSchema = z.object({
+// Path that stands for standard input, or standard output as the output
+const STDIO = "-";
+
+// Helper to name a path in messages
+function displayPath(path: string, stream: "input" | "output"): string {
+  return path === STDIO ? `<std${stream === "input" ? "in" : "out"}>` : path;
+}
+
+// Helper to write text to a file, or to stdout for `-`
+async function writeText(path: string, text: string): Promise<void> {
+  await Bun.write(path === STDIO ? Bun.stdout : path, text);
+}
+
+// Helper to print a status message. Messages go to stderr, leaving stdout
+// to the converted output, and `--quiet` silences them
+function status(message: string, quiet: boolean): void {
+  if (!quiet) console.error(message);
+}
+
+// Helper to split the command's paths into inputs and the output. The last
+// path is the output unless it is the only one, or is itself an input (an
+// HCL file or a directory), in which case the output is stdout
+function splitPaths(paths: string[]): { inputs: string[]; output: string } {
+  const last = paths[paths.length - 1] ?? "";
+  const isInput =
+    /\.(hcl|tf)$/.test(last) ||
+    statSync(last, { throwIfNoEntry: false })?.isDirectory();
+  return paths.length < 2 || isInput
+    ? { inputs: paths, output: STDIO }
+    : { inputs: paths.slice(0, -1), output: last };
+}
+
+// Helper to expand directories into the .hcl and .tf files they contain
+async function collectHCLFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const path of paths) {
+    if (path === STDIO) {
+      files.push(path);
+      continue;
+    }
+    const info = await stat(path).catch(() => undefined);
+    if (!info) throw new Error(`No such file or directory: ${path}`);
+    if (!info.isDirectory()) {
+      files.push(path);
+      continue;
+    }
+    const entries = await readdir(path, { recursive: true });
+    for (const entry of entries.sort()) {
+      if (entry.endsWith(".hcl") || entry.endsWith(".tf")) {
+        files.push(join(path, entry));
+      }
+    }
+  }
+  return files;
+}
+
+// Helper to read input files, or stdin for `-`, and their `use` directives.
+// Files without a directive take the service of the others, or `--service`;
+// files naming different services are rejected
+async function readInputs(
+  files: string[],
+  service?: Exclude<ServiceType, null>,
+): Promise<{ sources: HCLSource[]; serviceType: ServiceType }> {
+  const sources: HCLSource[] = [];
+  const services = new Map<Exclude<ServiceType, null>, string>();
+  for (const path of files) {
+    // Directives stay in the source; the parser resolves includes itself
+    const source =
+      path === STDIO ? await Bun.stdin.text() : await Bun.file(path).text();
+    const file = displayPath(path, "input");
+    const { serviceType } = parseDirective(source);
+    if (serviceType && !services.has(serviceType)) {
+      services.set(serviceType, file);
+    }
+    sources.push({ file, source });
+  }
+  if (services.size > 1) {
+    const list = [...services].map(([service, file]) => `${service} (${file})`);
+    throw new Error(`Input files use different services: ${list.join(", ")}`);
+  }
+  const [[used, file] = []] = services;
+  if (service && used && used !== service) {
+    throw new Error(
+      `--service ${service} conflicts with \`use ${used}\` in ${file}`,
+    );
+  }
+  return { sources, serviceType: used ?? service ?? null };
+}
+
+// Helper to collect the values of a repeatable option
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// Helper to read variable values from `--var-file` files, then `--var`
+// assignments; later values win. A `--var` value starting with `[` or `{`
+// is read as an HCL list or object, anything else as a string that is
+// converted to the variable's type
+async function loadVariables(
+  files: string[],
+  assignments: string[],
+): Promise<Record<string, HCLValue>> {
+  const variables: Record<string, HCLValue> = {};
+  for (const file of files) {
+    if (!(await fileExists(file))) {
+      throw new Error(`Variable file does not exist: ${file}`);
+    }
+    Object.assign(variables, parseHCL(await Bun.file(file).text(), { file }));
+  }
+  for (const assignment of assignments) {
+    const index = assignment.indexOf("=");
+    const name = assignment.slice(0, index);
+    const value = assignment.slice(index + 1);
+    variables[name] = /^\s*[[{]/.test(value)
+      ? (parseHCL(`value = ${value}`, { file: `--var ${name}` }).value ?? null)
+      : value;
+  }
+  return variables;
+}
+
+// Helper to resolve where --grafana-json writes: the given path, or the
+// output path with a .json extension. Writing to stdout leaves no path to
+// derive one from, so an empty path is returned
+function grafanaJsonPath(args: {
+  output: string;
+  grafanaJson?: true | string;
+}): string {
+  if (typeof args.grafanaJson === "string") return args.grafanaJson;
+  return args.output === STDIO
+    ? ""
+    : `${args.output.replace(/\.[^./\\]*$/, "")}.json`;
+}
+
+// Helper to keep a bare --grafana-json from taking the next path as its own:
+// a path must be attached as --grafana-json=<path>, and the bare flag becomes
+// --grafana-json= for the default path. Arguments after `--` are left alone
+function attachGrafanaJsonPath(argv: string[]): string[] {
+  const end = argv.indexOf("--");
+  return argv.map((arg, i) =>
+    arg === "--grafana-json" && (end === -1 || i < end)
+      ? "--grafana-json="
+      : arg,
+  );
+}
+
+// Helper to pick the output format from the output path: its extension, or
+// YAML for stdout
+function outputFormat(output: string): string | undefined {
+  return output === STDIO ? "yaml" : formatForPath(output);
+}
+
+// Helper to look up the comments above a value, given the keys leading to it
+function commentsAt(
+  data: HCLValue,
+  path: (string | number)[],
+): string[] | undefined {
+  if (path.length === 0) return undefined;
+  let container = data;
+  for (const key of path.slice(0, -1)) {
+    container = (container as Record<string, HCLValue>)[key]!;
+  }
+  return getComments(container as object, path[path.length - 1]!);
+}
+
+// Helper to print an error; parse and schema errors list every problem
+// found, followed by how many there were
+function reportError(err: unknown): void {
+  let count = 0;
+  if (err instanceof z.ZodError) {
+    const errors = err.issues
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join("\n");
+    console.error(`Invalid arguments:\n${errors}`);
+  } else if (err instanceof HCLParseError) {
+    console.error(err.format());
+    count = err instanceof HCLErrorList ? err.errors.length : 1;
+  } else if (err instanceof SchemaValidationError) {
+    console.error(err.message);
+    count = err.issues.length;
+  } else {
+    console.error(`${(err as Error).message}`);
+  }
+  if (count > 0) {
+    console.error(`\nFound ${count} ${count === 1 ? "error" : "errors"}`);
+  }
+}
+
+// Zod schema for CLI arguments validation. The output format comes from
+// --format or the output file's extension, and only takes its own options;
+// output to stdout is YAML unless --format says otherwise
+const cliArgsSchema = z
+  .object({
+    inputs: z
+      .array(
+        z
+          .string()
+          .min(1, "Input path is required")
+          .refine(
+            (path) =>
+              path === STDIO ||
+              path.endsWith(".hcl") ||
+              path.endsWith(".tf") ||
+              statSync(path, { throwIfNoEntry: false })?.isDirectory(),
+            "Input must be a .hcl or .tf file, a directory, or - for stdin",
+          ),
+      )
+      .min(1, "At least one input path is required"),
+    output: z.string().min(1, "Output file path is required"),
+    service: z
+      .string()
+      .refine(
+        isValidServiceType,
+        "Service must be one of: cloudformation, grafana, kubernetes",
+      )
+      .transform((name) => name.toLowerCase() as Exclude<ServiceType, null>)
+      .optional(),
+    quiet: z.boolean().default(false),
+    format: z
+      .string()
+      .refine(
+        (name) => getFormat(name) !== undefined,
+        `Format must be one of: ${formatNames().join(", ")}`,
+      )
+      .optional(),
+    duplicateBlocks: z.enum(DUPLICATE_BLOCK_POLICIES),
+    keepComments: z.boolean().default(false),
+    kubernetesList: z.boolean().default(false),
+    shortForm: z.boolean().default(false),
+    grafanaJson: z.union([z.literal(true), z.string().min(1)]).optional(),
+    indent: z.coerce
+      .number({ error: "Indent must be a number" })
+      .int("Indent must be a whole number")
+      .min(0, "Indent must be between 0 and 10")
+      .max(10, "Indent must be between 0 and 10")
+      .optional(),
+    lineWidth: z.coerce
+      .number({ error: "Line width must be a number" })
+      .int("Line width must be a whole number")
+      .positive("Line width must be positive")
+      .optional(),
+    quote: z
+      .enum(["single", "double"], "Quote style must be single or double")
+      .optional(),
+    flowArrays: z.boolean().optional(),
+    multiline: z
+      .enum(["literal", "quoted"], "Multi-line style must be literal or quoted")
+      .optional(),
+    documentStart: z.boolean().optional(),
+    config: z.string().min(1).optional(),
+    var: z.array(
+      z
+        .string()
+        .regex(
+          /^[a-zA-Z_][a-zA-Z0-9_-]*=/,
+          "Variables must be given as name=value",
+        ),
+    ),
+    varFile: z.array(z.string().min(1)),
+  })
+  .superRefine((args, ctx) => {
+    if (args.inputs.filter((path) => path === STDIO).length > 1) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["inputs"],
+        message: "Standard input (-) can only be read once",
+      });
+    }
+    // Skip when --format was already rejected
+    if (args.format && !getFormat(args.format)) return;
+    if (args.grafanaJson && grafanaJsonPath(args) === "") {
+      ctx.addIssue({
+        code: "custom",
+        path: ["grafanaJson"],
+        message:
+          "--grafana-json needs a path, as --grafana-json=<path>, when writing to stdout",
+      });
+    } else if (args.grafanaJson && grafanaJsonPath(args) === args.output) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["grafanaJson"],
+        message: "--grafana-json must be a different file from the output",
+      });
+    }
+    const format = args.format ?? outputFormat(args.output);
+    if (!format) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["output"],
+        message: `Output file must end in ${formatExtensions().join(", ")}, or --format must be given`,
+      });
+      return;
+    }
+    const { options } = getFormat(format)!;
+    const given = {
+      keepComments: args.keepComments ? "--keep-comments" : undefined,
+      indent: args.indent !== undefined ? "--indent" : undefined,
+      shortForm: args.shortForm ? "--short-form" : undefined,
+      lineWidth: args.lineWidth !== undefined ? "--line-width" : undefined,
+      quote: args.quote ? "--quote" : undefined,
+      flowArrays: args.flowArrays ? "--flow-arrays" : undefined,
+      multiline: args.multiline ? "--multiline" : undefined,
+      documentStart: args.documentStart ? "--document-start" : undefined,
+    };
+    for (const [option, flag] of Object.entries(given)) {
+      if (flag && !options.includes(option as keyof typeof given)) {
+        ctx.addIssue({
+          code: "custom",
+          path: [option],
+          message: `${flag} is not supported for ${format} output`,
+        });
+      }
+    }
+    if (format === "yaml" && args.indent === 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["indent"],
+        message: "Indent must be at least 1 for yaml output",
+      });
+    }
+  })
+  .transform((args) => ({
+    ...args,
+    format: args.format ?? outputFormat(args.output)!,
+    grafanaJson: args.grafanaJson && grafanaJsonPath(args),
+  }));
+
+// Zod schema for `fmt` arguments validation
+const fmtArgsSchema = z.object({
+  paths: z.array(z.string().min(1)).min(1, "At least one path is required"),
+  check: z.boolean().default(false),
+});
+
+// Zod schema for `yaml2hcl` arguments validation
+const yaml2hclArgsSchema = z.object({
   input: z
     .string()
     .min(1, "Input file path is required")
     .refine(
-      (path) => path.endsWith(".hcl") || path.endsWith(".tf"),
-      "Input file must be a .hcl or .tf file",
+      (path) => /\.(ya?ml|json)$/.test(path),
+      "Input must be a .yaml, .yml or .json file",
     ),
   output: z
     .string()
     .min(1, "Output file path is required")
     .refine(
-      (path) => path.endsWith(".yaml") || path.endsWith(".yml"),
-      "Output file must be a .yaml or .yml file",
+      (path) => path.endsWith(".hcl") || path.endsWith(".tf"),
+      "Output file must be a .hcl or .tf file",
     ),
 });
 
@@ -42,42 +406,152 @@ const cliArgsSchema = z.object({
  * CLI application for converting HCL files to YAML with schema validation.
  *
  * This tool parses HCL (HashiCorp Configuration Language) files,
- * validates them against a generic schema, and converts them to YAML format.
+ * validates them against a generic schema, and converts them to YAML format,
+ * or to JSON, HCL-JSON or TOML picked by output extension or `--format`.
+ * Several files, or directories of them, are merged into one document.
+ * `-` reads stdin or writes stdout, and without an output path the result
+ * is written to stdout, so the tool can sit in a pipeline.
  *
  * @example
  * ```bash
  * hcl2yaml config.hcl output.yaml
+ * hcl2yaml namespace.hcl deployment.hcl service.hcl stack.yaml
+ * hcl2yaml stack/ stack.yaml
+ * hcl2yaml app.hcl prod.yaml --var-file prod.hcl --var replicas=5
+ * hcl2yaml dashboard.hcl dashboard.json --indent 4
+ * hcl2yaml main.hcl main.tf.json
+ * cat app.hcl | hcl2yaml - --service kubernetes | kubectl apply -f -
  * ```
  */
 const program = new Command();
 
 program
   .name("hcl2yaml")
-  .description("Convert HCL to YAML with built-in schema validation")
+  .description(
+    "Convert HCL to YAML, JSON or TOML with built-in schema validation",
+  )
   .version(version)
-  .argument("<input>", "Path to HCL file")
-  .argument("<output>", "Path to output YAML file")
-  .action(async (input, output) => {
+  .usage("[options] <inputs...> [output]")
+  .argument(
+    "<paths...>",
+    "HCL files or directories to merge (- for stdin), followed by the output file (default: stdout)",
+  )
+  .option(
+    "--format <format>",
+    `Output format: ${formatNames().join(", ")} (default: from the output extension, or yaml for stdout)`,
+  )
+  .option(
+    "--service <name>",
+    "Validate as cloudformation, grafana or kubernetes when the input has no `use` directive",
+  )
+  .option("-q, --quiet", "Don't print status messages to stderr")
+  .option(
+    "--duplicate-blocks <policy>",
+    "How to handle repeated blocks: list, error or last-wins",
+    "list",
+  )
+  .option(
+    "--keep-comments",
+    "Copy HCL comments into the output (yaml and toml)",
+  )
+  .option(
+    "--kubernetes-list",
+    "Write Kubernetes resources as one kind: List instead of a YAML stream",
+  )
+  .option(
+    "--short-form",
+    "Write CloudFormation intrinsic functions as !Ref, !GetAtt... tags (yaml)",
+  )
+  .option(
+    "--grafana-json [path]",
+    "Also write the dashboard as a Grafana API request to --grafana-json=<path> (default: the output path with .json)",
+    // An empty path, from a bare flag, means the default
+    (path: string) => path || true,
+  )
+  .option(
+    "--indent <spaces>",
+    "Spaces per indentation level (yaml, json and hcl-json, default: 2)",
+  )
+  .option(
+    "--line-width <columns>",
+    "Fold long strings to fit this width (yaml, default: no folding)",
+  )
+  .option(
+    "--quote <style>",
+    "Quotes for strings that need them: single or double (yaml, default: single)",
+  )
+  .option(
+    "--flow-arrays",
+    "Write short lists of scalars in flow style, as [a, b] (yaml)",
+  )
+  .option(
+    "--multiline <style>",
+    "Write multi-line strings as literal blocks or quoted (yaml, default: literal)",
+  )
+  .option("--document-start", "Start each YAML document with ---")
+  .option(
+    "--config <path>",
+    `Read output settings from an HCL config file (default: ${CONFIG_FILE} if present)`,
+  )
+  .option(
+    "--var <name=value>",
+    "Set a variable, overriding its default (repeatable)",
+    collect,
+    [],
+  )
+  .option(
+    "--var-file <path>",
+    "Read variable values from an HCL file of name = value lines (repeatable)",
+    collect,
+    [],
+  )
+  .action(async (paths: string[], options) => {
     try {
       // Validate CLI arguments using Zod
-      const args = cliArgsSchema.parse({ input, output });
+      const args = cliArgsSchema.parse({ ...splitPaths(paths), ...options });
 
-      // Check if input file exists
-      if (!(await fileExists(args.input))) {
-        throw new Error("Input file does not exist");
+      // Variable and config files inside an input directory are not inputs
+      // themselves
+      const excluded = new Set(
+        [...args.varFile, args.config ?? CONFIG_FILE].map((file) =>
+          resolve(file),
+        ),
+      );
+      const files = (await collectHCLFiles(args.inputs)).filter(
+        (file) => !excluded.has(resolve(file)),
+      );
+      if (files.length === 0) {
+        throw new Error("No .hcl or .tf files found in the input paths");
       }
 
-      const hclContent = await Bun.file(args.input).text();
+      const variables = await loadVariables(args.varFile, args.var);
+      const config = await loadConfig(args.config);
 
       // Parse directives to determine service type
-      const { serviceType, cleanedInput } = parseDirective(hclContent);
+      const { sources, serviceType } = await readInputs(files, args.service);
+      if (args.kubernetesList && serviceType !== "kubernetes") {
+        throw new Error("--kubernetes-list requires `use kubernetes`");
+      }
+      if (args.shortForm && serviceType !== "cloudformation") {
+        throw new Error("--short-form requires `use cloudformation`");
+      }
+      if (args.grafanaJson && serviceType !== "grafana") {
+        throw new Error("--grafana-json requires `use grafana`");
+      }
+
+      // Parse and merge HCL
+      const data = parseHCLFiles(sources, {
+        duplicateBlocks: args.duplicateBlocks,
+        variables,
+        service: serviceType,
+      });
 
-      // Parse HCL
-      const data = parseHCL(cleanedInput);
+      // Place Grafana panels before validating the resulting dashboard
+      if (serviceType === "grafana") layoutDashboard(data);
 
       // Validate using appropriate validator
       if (serviceType) {
-        console.log(`Using ${serviceType} validator...`);
+        status(`Using ${serviceType} validator...`, args.quiet);
         switch (serviceType) {
           case "cloudformation":
             validateCloudFormation(data);
@@ -94,24 +568,146 @@ program
         validateHCL(data);
       }
 
-      // Write YAML output
-      await writeYAML(data, args.output);
+      // Write output in the chosen format. Kubernetes resources are written
+      // without their block names: as a `kind: List`, or in YAML as one
+      // document each, as `kubectl apply -f` expects
+      // Flags take precedence over the config file's YAML settings
+      const flags = Object.entries({
+        indent: args.indent,
+        lineWidth: args.lineWidth,
+        quote: args.quote,
+        flowArrays: args.flowArrays,
+        multiline: args.multiline,
+        documentStart: args.documentStart,
+      }).filter(([, value]) => value !== undefined);
+      const writeOptions = {
+        ...(args.format === "yaml" && config.yaml),
+        ...Object.fromEntries(flags),
+        keepComments: args.keepComments,
+        shortForm: args.shortForm,
+      };
+      const { serialize } = getFormat(args.format)!;
+      const documents =
+        serviceType === "kubernetes" ? kubernetesDocuments(data) : [];
+      if (args.kubernetesList) {
+        const items = documents.map(({ resource }) => resource as HCLValue);
+        documents.forEach(({ path }, i) =>
+          attachComments(items, i, commentsAt(data, path) ?? []),
+        );
+        const list = { apiVersion: "v1", kind: "List", items };
+        await writeText(args.output, serialize(list, writeOptions));
+      } else if (serviceType === "kubernetes" && args.format === "yaml") {
+        const stream = documents.map(({ path, resource }) => ({
+          value: resource as Record<string, HCLValue>,
+          comments: commentsAt(data, path),
+        }));
+        await writeText(args.output, toYAMLStream(stream, writeOptions));
+      } else {
+        await writeText(args.output, serialize(data, writeOptions));
+      }
+
+      if (args.grafanaJson) {
+        await writeText(args.grafanaJson, toJSON(dashboardEnvelope(data)));
+      }
 
       const serviceMsg = serviceType ? ` (${serviceType})` : "";
-      console.log(
-        `Successfully converted and validated${serviceMsg}: ${args.output}`,
+      const output = displayPath(args.output, "output");
+      status(
+        `Successfully converted and validated${serviceMsg}: ${output}`,
+        args.quiet,
       );
+      if (args.grafanaJson) {
+        const request = displayPath(args.grafanaJson, "output");
+        status(`Grafana API request: ${request}`, args.quiet);
+      }
     } catch (err) {
-      if (err instanceof z.ZodError) {
-        const errors = err.issues
-          .map((e) => `${e.path.join(".")}: ${e.message}`)
-          .join("\n");
-        console.error(`Invalid arguments:\n${errors}`);
-      } else {
-        console.error(`${(err as Error).message}`);
+      reportError(err);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Formats HCL files in place, or with `--check` lists the files that are not
+ * formatted and exits with status 1.
+ *
+ * @example
+ * ```bash
+ * hcl2yaml fmt main.hcl modules/
+ * hcl2yaml fmt --check .
+ * ```
+ */
+program
+  .command("fmt")
+  .description("Format HCL files canonically")
+  .argument("<paths...>", "HCL files or directories to format")
+  .option(
+    "--check",
+    "List unformatted files and exit with 1 instead of writing",
+  )
+  .action(async (paths, options) => {
+    try {
+      const args = fmtArgsSchema.parse({ paths, ...options });
+      let unformatted = 0;
+      let failed = 0;
+
+      for (const path of await collectHCLFiles(args.paths)) {
+        const source = await Bun.file(path).text();
+        let formatted: string;
+        try {
+          formatted = formatHCL(source, path);
+        } catch (err) {
+          // Keep going so that one run reports every broken file
+          if (!(err instanceof HCLParseError)) throw err;
+          reportError(err);
+          failed++;
+          continue;
+        }
+        if (formatted === source) continue;
+
+        unformatted++;
+        console.log(path);
+        if (!args.check) await Bun.write(path, formatted);
       }
+
+      if (failed > 0 || (args.check && unformatted > 0)) process.exit(1);
+    } catch (err) {
+      reportError(err);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Converts YAML or JSON back to HCL, adding a `use <service>` directive when
+ * the data looks like CloudFormation, Grafana or Kubernetes.
+ *
+ * @example
+ * ```bash
+ * hcl2yaml yaml2hcl deployment.yaml deployment.hcl
+ * hcl2yaml yaml2hcl dashboard.json dashboard.hcl
+ * ```
+ */
+program
+  .command("yaml2hcl")
+  .description("Convert YAML or JSON to HCL")
+  .argument("<input>", "YAML or JSON file to convert")
+  .argument("<output>", "HCL file to write")
+  .action(async (input, output) => {
+    try {
+      const args = yaml2hclArgsSchema.parse({ input, output });
+      if (!(await fileExists(args.input))) {
+        throw new Error(`Input file does not exist: ${args.input}`);
+      }
+
+      const data = loadYAML(await Bun.file(args.input).text());
+      const serviceType = detectService(data);
+      await writeHCL(data, args.output, { serviceType });
+
+      const serviceMsg = serviceType ? ` (${serviceType})` : "";
+      console.error(`Successfully converted${serviceMsg}: ${args.output}`);
+    } catch (err) {
+      reportError(err);
       process.exit(1);
     }
   });
 
-program.parse();
+program.parse(attachGrafanaJsonPath(process.argv));
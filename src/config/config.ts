@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { parseHCL } from "../parser/parser";
+import { SchemaValidationError } from "../validation/validator";
+import type { WriteOptions } from "../converters/converter";
+
+/**
+ * Config file read from the working directory when `--config` isn't given.
+ */
+export const CONFIG_FILE = ".hcl2yaml.hcl";
+
+/**
+ * Settings of the config's `yaml` block, in HCL's snake case.
+ */
+const yamlConfigSchema = z
+  .strictObject({
+    indent: z.number().int().min(1).max(10).optional(),
+    line_width: z.number().int().positive().optional(),
+    quote: z.enum(["single", "double"]).optional(),
+    flow_arrays: z.boolean().optional(),
+    multiline: z.enum(["literal", "quoted"]).optional(),
+    document_start: z.boolean().optional(),
+  })
+  .transform(
+    (yaml): WriteOptions => ({
+      indent: yaml.indent,
+      lineWidth: yaml.line_width,
+      quote: yaml.quote,
+      flowArrays: yaml.flow_arrays,
+      multiline: yaml.multiline,
+      documentStart: yaml.document_start,
+    }),
+  );
+
+/**
+ * Schema of the whole config file.
+ */
+const configSchema = z.strictObject({
+  yaml: yamlConfigSchema.default({}),
+});
+
+/**
+ * Settings read from a config file.
+ */
+export type Config = z.output<typeof configSchema>;
+
+/**
+ * Reads the config file: the given path, or `.hcl2yaml.hcl` in the working
+ * directory if there is one. The file is HCL, with YAML output settings in
+ * a `yaml` block:
+ *
+ * ```hcl
+ * yaml {
+ *   indent      = 4
+ *   quote       = "double"
+ *   flow_arrays = true
+ * }
+ * ```
+ *
+ * @param path - Config file given with `--config`
+ * @returns The settings, with unset ones left undefined
+ * @throws Error if a given config file doesn't exist
+ * @throws HCLParseError if the file isn't valid HCL
+ * @throws SchemaValidationError if it has unknown or invalid settings
+ *
+ * @example
+ * ```typescript
+ * const config = await loadConfig();
+ * toYAML(data, { ...config.yaml, keepComments: true });
+ * ```
+ */
+export async function loadConfig(path?: string): Promise<Config> {
+  const file = Bun.file(path ?? CONFIG_FILE);
+  if (!(await file.exists())) {
+    if (path) throw new Error(`Config file does not exist: ${path}`);
+    return { yaml: {} };
+  }
+
+  const data = parseHCL(await file.text(), { file: path ?? CONFIG_FILE });
+  const result = configSchema.safeParse(data);
+  if (!result.success) {
+    throw new SchemaValidationError(
+      `Config file ${path ?? CONFIG_FILE}`,
+      result.error,
+    );
+  }
+  return result.data;
+}
@@ -1,11 +1,382 @@
 import yaml from "js-yaml";
 import type { HCLValue } from "../parser/parser";
+import { getComments } from "../parser/comments";
+import { isObject } from "../parser/values";
+import {
+  CLOUDFORMATION_DUMP_SCHEMA,
+  intrinsicKey,
+  trimTagLines,
+} from "./services/cloudformation";
+
+/**
+ * Options controlling YAML output.
+ */
+export interface WriteOptions {
+  /** Re-emit HCL comments as `#` comments above the keys they describe */
+  keepComments?: boolean;
+  /**
+   * Write CloudFormation intrinsic functions in their short form, as
+   * `!Ref Bucket` instead of `Ref: Bucket`
+   */
+  shortForm?: boolean;
+  /** Spaces per indentation level (default: 2) */
+  indent?: number;
+  /** Fold long strings to fit this many columns (default: no folding) */
+  lineWidth?: number;
+  /** Quotes for strings that need them (default: single) */
+  quote?: "single" | "double";
+  /** Write short lists of scalars in flow style, as `[80, 443]` */
+  flowArrays?: boolean;
+  /**
+   * How multi-line strings are written: as literal block scalars (`|`, the
+   * default), or as double-quoted strings with `\n` escapes
+   */
+  multiline?: "literal" | "quoted";
+  /** Start each document with a `---` marker */
+  documentStart?: boolean;
+}
+
+/**
+ * Prefix of the placeholder keys that mark where comments go.
+ */
+const COMMENT_MARKER = "__hcl_comment_";
+
+/**
+ * Picks the prefix of a kind of placeholder for some data: `base`, or, when
+ * a key or string of the data contains it, `base` followed by the first
+ * number that none does (`__hcl_comment_1_`). Data is then never mistaken for
+ * a placeholder.
+ *
+ * @param base - Default prefix
+ * @param data - Data the placeholders will be inserted into
+ * @returns Prefix that no key or string of the data contains
+ */
+function markerPrefix(base: string, data: HCLValue): string {
+  const strings: string[] = [];
+  const collect = (value: HCLValue): void => {
+    if (typeof value === "string") {
+      strings.push(value);
+    } else if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (isObject(value)) {
+      for (const [key, item] of Object.entries(value)) {
+        strings.push(key);
+        collect(item as HCLValue);
+      }
+    }
+  };
+  collect(data);
+
+  let prefix = base;
+  for (let n = 1; strings.some((text) => text.includes(prefix)); n++) {
+    prefix = `${base}${n}_`;
+  }
+  return prefix;
+}
+
+/**
+ * Copies data, inserting a placeholder key (`__hcl_comment_<n>__: null`)
+ * before every commented key. List elements with comments get the
+ * placeholder as their first key, so they must be non-empty objects.
+ *
+ * @param data - Parsed HCL data
+ * @param notes - Receives the comment lines for each placeholder number
+ * @param prefix - Placeholder prefix, from `markerPrefix`
+ * @returns Copy of the data with placeholders
+ */
+function insertCommentMarkers(
+  data: HCLValue,
+  notes: string[][],
+  prefix: string,
+): HCLValue {
+  const marker = (lines: string[]) => `${prefix}${notes.push(lines) - 1}__`;
+
+  if (Array.isArray(data)) {
+    return data.map((item, index) => {
+      const copy = insertCommentMarkers(item, notes, prefix);
+      const lines = getComments(data, index);
+      if (!lines || !isObject(copy) || Object.keys(copy).length === 0) {
+        return copy;
+      }
+      return { [marker(lines)]: null, ...copy };
+    });
+  }
+
+  if (isObject(data)) {
+    // Without a prototype, a `__proto__` key is copied like any other
+    const copy: Record<string, HCLValue> = Object.create(null);
+    for (const [key, value] of Object.entries(data)) {
+      const lines = getComments(data, key);
+      if (lines) copy[marker(lines)] = null;
+      copy[key] = insertCommentMarkers(value as HCLValue, notes, prefix);
+    }
+    return copy;
+  }
+
+  return data;
+}
+
+/**
+ * Replaces placeholder lines in dumped YAML with `#` comments.
+ *
+ * Placeholders that start a list element (`- __hcl_comment_0__: null`)
+ * put their comments above the `-`, which moves on to the element's first
+ * key. With an indent other than 2, js-yaml writes the `-` on a line of its
+ * own, followed by the element's keys one indent further in; with 2, the
+ * dash may follow those of enclosing lists (`- - key: value`).
+ *
+ * @param text - YAML produced from data with placeholders
+ * @param notes - Comment lines for each placeholder number
+ * @param prefix - Placeholder prefix, from `markerPrefix`
+ * @param indent - Spaces per indentation level the text was dumped with
+ * @returns YAML with comments
+ */
+function replaceCommentMarkers(
+  text: string,
+  notes: string[][],
+  prefix: string,
+  indent: number,
+): string {
+  const render = (column: string, n: string) =>
+    notes[Number(n)]!.map((line) =>
+      line ? `${column}# ${line}\n` : `${column}#\n`,
+    ).join("");
+
+  // A list element can carry several placeholders (its own and its first
+  // key's), all written above its dash
+  const number = new RegExp(`${prefix}(\\d+)__`, "g");
+  const listItem = new RegExp(
+    `^( *(?:- )*)-( |\\n\\1 {${indent}})((?:${prefix}\\d+__: null\\n *)+)`,
+    "gm",
+  );
+  const key = new RegExp(`^( *)${prefix}(\\d+)__: null\\n`, "gm");
+
+  return text
+    .replace(listItem, (_, lead: string, gap: string, markers: string) => {
+      const column = " ".repeat(lead.length);
+      const comments = [...markers.matchAll(number)]
+        .map(([, n]) => render(column, n!))
+        .join("");
+      return `${comments}${lead}-${gap}`;
+    })
+    .replace(key, (_, column: string, n: string) => render(column, n));
+}
+
+/**
+ * Prefix of the placeholder strings that stand for values styled by hand.
+ */
+const VALUE_MARKER = "__hcl_value_";
+
+/**
+ * Lists of scalars whose flow form is at most this long are written in
+ * flow style with `flowArrays`.
+ */
+const MAX_FLOW_ARRAY = 60;
+
+/**
+ * Copies data, replacing the values whose style js-yaml can't be told per
+ * value with placeholder strings (`__hcl_value_<n>__`): multi-line strings,
+ * and short lists of scalars with `flowArrays`. Lists that are the argument
+ * of a short-form tag are left to the tag.
+ *
+ * @param data - Data to write
+ * @param values - Receives the replaced value for each placeholder number
+ * @param options - Output options
+ * @param prefix - Placeholder prefix, from `markerPrefix`
+ * @returns Copy of the data with placeholders
+ */
+function insertValueMarkers(
+  data: HCLValue,
+  values: HCLValue[],
+  options: WriteOptions,
+  prefix: string,
+): HCLValue {
+  const marker = (value: HCLValue) => `${prefix}${values.push(value) - 1}__`;
+
+  if (typeof data === "string") {
+    return data.includes("\n") ? marker(data) : data;
+  }
+  if (Array.isArray(data)) {
+    const flow =
+      options.flowArrays &&
+      data.length > 0 &&
+      data.every(
+        (item) =>
+          item === null ||
+          (typeof item !== "object" && !String(item).includes("\n")),
+      ) &&
+      yaml.dump(data, { flowLevel: 0 }).length <= MAX_FLOW_ARRAY;
+    return flow
+      ? marker(data)
+      : data.map((item) => insertValueMarkers(item, values, options, prefix));
+  }
+  if (isObject(data)) {
+    const tagged = options.shortForm && intrinsicKey(data) !== undefined;
+    const copy: Record<string, HCLValue> = Object.create(null);
+    for (const [key, value] of Object.entries(data)) {
+      copy[key] =
+        tagged && Array.isArray(value)
+          ? value.map((item) =>
+              insertValueMarkers(item, values, options, prefix),
+            )
+          : insertValueMarkers(value as HCLValue, values, options, prefix);
+    }
+    return copy;
+  }
+  return data;
+}
+
+/**
+ * Replaces placeholder strings in dumped YAML with their values. Lists are
+ * written in flow style. Multi-line strings are dumped on their own, as the
+ * value of a key or a list element like the placeholder's, and their lines
+ * shifted to the placeholder's column, so block scalars keep valid
+ * indentation at any depth.
+ *
+ * @param text - YAML produced from data with placeholders
+ * @param values - Value of each placeholder number
+ * @param prefix - Placeholder prefix, from `markerPrefix`
+ * @param dumpOptions - Options the text was dumped with
+ * @param options - Output options
+ * @returns YAML with the values in place
+ */
+function replaceValueMarkers(
+  text: string,
+  values: HCLValue[],
+  prefix: string,
+  dumpOptions: yaml.DumpOptions,
+  options: WriteOptions,
+): string {
+  const marker = new RegExp(`^( *(?:- )*)(.*?)${prefix}(\\d+)__$`, "gm");
+  return text.replace(marker, (_, lead: string, key: string, n: string) => {
+    const value = values[Number(n)]!;
+    if (Array.isArray(value)) {
+      const flow = yaml.dump(value, { ...dumpOptions, flowLevel: 0 });
+      return `${lead}${key}${flow.trimEnd()}`;
+    }
+    if (options.multiline === "quoted") {
+      const quoted = yaml.dump(value, {
+        ...dumpOptions,
+        forceQuotes: true,
+        quotingType: '"',
+      });
+      return `${lead}${key}${quoted.trimEnd()}`;
+    }
+
+    // A bare list element is dumped as one, anything else as a key's value
+    const element = key === "";
+    const column = element ? lead.length - 2 : lead.length;
+    const dumped = yaml.dump(element ? [value] : { k: value }, {
+      ...dumpOptions,
+      lineWidth: -1,
+    });
+    const [first, ...rest] = dumped.slice(0, -1).split("\n");
+    const shifted = rest.map((line) =>
+      line === "" ? line : " ".repeat(column) + line,
+    );
+    const header = first!.slice(element ? 2 : 3);
+    return [`${lead}${key}${header}`, ...shifted].join("\n");
+  });
+}
+
+/**
+ * Converts parsed HCL data to a YAML string.
+ *
+ * Multi-line strings, such as heredoc content, are written as literal block
+ * scalars (`|`) unless `multiline` is `quoted`. Long strings are only
+ * folded when a `lineWidth` is given.
+ *
+ * @param data - The data object to convert to YAML
+ * @param options - Output options
+ * @returns YAML text
+ *
+ * @example
+ * ```typescript
+ * toYAML(parseHCL("# Web tier\nweb { port = 80 }"), { keepComments: true });
+ * // "# Web tier\nweb:\n  port: 80\n"
+ * ```
+ */
+export function toYAML(
+  data: Record<string, HCLValue>,
+  options: WriteOptions = {},
+): string {
+  const dumpOptions: yaml.DumpOptions = {
+    noRefs: true,
+    sortKeys: false,
+    indent: options.indent ?? 2,
+    lineWidth: options.lineWidth ?? -1,
+    quotingType: options.quote === "double" ? '"' : "'",
+    ...(options.shortForm && { schema: CLOUDFORMATION_DUMP_SCHEMA }),
+  };
+  const dump = (value: HCLValue) => {
+    const values: HCLValue[] = [];
+    const prefix = markerPrefix(VALUE_MARKER, value);
+    const marked = insertValueMarkers(value, values, options, prefix);
+    let text = yaml.dump(marked, dumpOptions);
+    text = replaceValueMarkers(text, values, prefix, dumpOptions, options);
+    if (options.shortForm) text = trimTagLines(text);
+    return options.documentStart ? `---\n${text}` : text;
+  };
+
+  if (!options.keepComments) return dump(data);
+
+  const notes: string[][] = [];
+  const prefix = markerPrefix(COMMENT_MARKER, data);
+  const marked = insertCommentMarkers(data, notes, prefix);
+  return replaceCommentMarkers(
+    dump(marked),
+    notes,
+    prefix,
+    dumpOptions.indent!,
+  );
+}
+
+/**
+ * A document of a YAML stream.
+ */
+export interface YAMLDocument {
+  value: Record<string, HCLValue>;
+  /** Comment lines written above the document with `keepComments` */
+  comments?: string[];
+}
+
+/**
+ * Converts several values to one YAML stream, each its own document
+ * separated by `---`, as consumed by `kubectl apply -f`.
+ *
+ * @param documents - The documents, in order
+ * @param options - Output options, applied to every document
+ * @returns YAML text
+ *
+ * @example
+ * ```typescript
+ * toYAMLStream([{ value: { kind: "Namespace" } }, { value: { kind: "Service" } }]);
+ * // "kind: Namespace\n---\nkind: Service\n"
+ * ```
+ */
+export function toYAMLStream(
+  documents: YAMLDocument[],
+  options: WriteOptions = {},
+): string {
+  const single = { ...options, documentStart: false };
+  return documents
+    .map(({ value, comments }, index) => {
+      const header =
+        options.keepComments && comments
+          ? comments.map((line) => (line ? `# ${line}\n` : "#\n")).join("")
+          : "";
+      const start = index > 0 || options.documentStart ? "---\n" : "";
+      return start + header + toYAML(value, single);
+    })
+    .join("");
+}
 
 /**
  * Converts JavaScript object to YAML format and writes to file.
  *
  * @param data - The data object to convert to YAML
  * @param outPath - The file path where the YAML will be written
+ * @param options - Output options, such as keeping comments
  *
  * @example
  * ```typescript
@@ -15,7 +386,7 @@ import type { HCLValue } from "../parser/parser";
 export async function writeYAML(
   data: Record<string, HCLValue>,
   outPath: string,
+  options: WriteOptions = {},
 ): Promise<void> {
-  const yamlStr = yaml.dump(data, { noRefs: true, sortKeys: false });
-  await Bun.write(outPath, yamlStr);
+  await Bun.write(outPath, toYAML(data, options));
 }
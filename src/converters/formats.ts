@@ -0,0 +1,162 @@
+import type { HCLValue } from "../parser/parser";
+import { type WriteOptions, toYAML } from "./converter";
+import { type JSONWriteOptions, toHCLJSON, toJSON } from "./json";
+import { type TOMLWriteOptions, toTOML } from "./toml";
+
+/**
+ * Options of every output format. Each format reads only the options it
+ * lists in `OutputFormat.options`.
+ */
+export type FormatOptions = WriteOptions & JSONWriteOptions & TOMLWriteOptions;
+
+/**
+ * An output format the converted data can be written in.
+ */
+export interface OutputFormat {
+  /** File name endings that select the format, e.g. `.tf.json` */
+  extensions: string[];
+  /** Options the format understands */
+  options: (keyof FormatOptions)[];
+  /** Serializes data to text */
+  serialize(data: Record<string, HCLValue>, options: FormatOptions): string;
+}
+
+/**
+ * Registered output formats by name.
+ */
+const registry = new Map<string, OutputFormat>();
+
+/**
+ * Adds an output format to the registry, making it selectable by name
+ * (`--format`) and by output file extension.
+ *
+ * @param name - Name of the format, e.g. `json`
+ * @param format - Format definition
+ * @throws Error if a format with that name is already registered
+ *
+ * @example
+ * ```typescript
+ * registerFormat("env", {
+ *   extensions: [".env"],
+ *   options: [],
+ *   serialize: (data) =>
+ *     Object.entries(data).map(([k, v]) => `${k}=${v}\n`).join(""),
+ * });
+ * ```
+ */
+export function registerFormat(name: string, format: OutputFormat): void {
+  if (registry.has(name)) {
+    throw new Error(`Output format '${name}' is already registered`);
+  }
+  registry.set(name, format);
+}
+
+/**
+ * Looks up an output format by name.
+ * @param name - Format name
+ * @returns The format, or undefined if none is registered under that name
+ */
+export function getFormat(name: string): OutputFormat | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Lists the names of all registered output formats.
+ * @returns Format names in registration order
+ */
+export function formatNames(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Lists the file extensions of all registered output formats.
+ * @returns Extensions in registration order
+ */
+export function formatExtensions(): string[] {
+  return [...registry.values()].flatMap((format) => format.extensions);
+}
+
+/**
+ * Picks the output format for a file from its extension. The longest
+ * matching extension wins, so `main.tf.json` is HCL-JSON rather than JSON.
+ *
+ * @param path - Output file path
+ * @returns Format name, or undefined if no extension matches
+ *
+ * @example
+ * ```typescript
+ * formatForPath("stack.yml"); // "yaml"
+ * formatForPath("main.tf.json"); // "hcl-json"
+ * ```
+ */
+export function formatForPath(path: string): string | undefined {
+  let best: { name: string; length: number } | undefined;
+  for (const [name, format] of registry) {
+    for (const extension of format.extensions) {
+      if (path.endsWith(extension) && extension.length > (best?.length ?? 0)) {
+        best = { name, length: extension.length };
+      }
+    }
+  }
+  return best?.name;
+}
+
+/**
+ * Serializes data in a registered format and writes it to a file.
+ *
+ * @param data - The data object to write
+ * @param outPath - The file path where the output will be written
+ * @param name - Name of the output format
+ * @param options - Output options, such as keeping comments
+ * @throws Error if no format is registered under that name
+ *
+ * @example
+ * ```typescript
+ * await writeOutput(data, "dashboard.json", "json", { indent: 4 });
+ * ```
+ */
+export async function writeOutput(
+  data: Record<string, HCLValue>,
+  outPath: string,
+  name: string,
+  options: FormatOptions = {},
+): Promise<void> {
+  const format = registry.get(name);
+  if (!format) throw new Error(`Unknown output format '${name}'`);
+  await Bun.write(outPath, format.serialize(data, options));
+}
+
+// Built-in formats
+
+registerFormat("yaml", {
+  extensions: [".yaml", ".yml"],
+  options: [
+    "keepComments",
+    "shortForm",
+    "indent",
+    "lineWidth",
+    "quote",
+    "flowArrays",
+    "multiline",
+    "documentStart",
+  ],
+  serialize: toYAML,
+});
+
+registerFormat("json", {
+  extensions: [".json"],
+  options: ["indent"],
+  serialize: toJSON,
+});
+
+registerFormat("hcl-json", {
+  extensions: [".tf.json", ".hcl.json"],
+  options: ["indent"],
+  serialize: toHCLJSON,
+});
+
+registerFormat("toml", {
+  extensions: [".toml"],
+  options: ["keepComments"],
+  serialize: toTOML,
+});
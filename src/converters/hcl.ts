@@ -0,0 +1,449 @@
+import yaml from "js-yaml";
+import type { HCLValue } from "../parser/parser";
+import { isObject } from "../parser/values";
+import type { ServiceType } from "../directives/parser";
+import { formatHCL } from "../formatter/formatter";
+import {
+  CLOUDFORMATION_LOAD_SCHEMA,
+  intrinsicKey,
+} from "./services/cloudformation";
+
+/**
+ * Options controlling HCL output.
+ */
+export interface HCLWriteOptions {
+  /** Service named in a `use <service>` directive at the top of the file */
+  serviceType?: ServiceType;
+}
+
+/**
+ * One level of indentation.
+ */
+const INDENT = "  ";
+
+/**
+ * Scalar lists longer than this are written one element per line.
+ */
+const MAX_INLINE_LIST = 80;
+
+/**
+ * Words that can't be written as bare keys, because the parser reads them
+ * as literals or as the start of a `for` expression.
+ */
+const RESERVED_KEYS = new Set(["true", "false", "null", "for", "in", "if"]);
+
+/**
+ * HCL functions of the CloudFormation intrinsics, by long-form key.
+ */
+const INTRINSIC_FUNCTIONS: Record<string, string> = {
+  Ref: "ref",
+  Condition: "condition",
+  "Fn::Base64": "base64",
+  "Fn::Cidr": "cidr",
+  "Fn::FindInMap": "find_in_map",
+  "Fn::GetAtt": "get_att",
+  "Fn::GetAZs": "get_azs",
+  "Fn::ImportValue": "import_value",
+  "Fn::Join": "join",
+  "Fn::Select": "select",
+  "Fn::Split": "split",
+  "Fn::Sub": "sub",
+  "Fn::And": "and",
+  "Fn::Equals": "equals",
+  "Fn::If": "if",
+  "Fn::Not": "not",
+  "Fn::Or": "or",
+};
+
+/**
+ * Reads YAML or JSON text into data that can be written as HCL.
+ *
+ * Values are read with the YAML core schema, so timestamps and other
+ * YAML-only types stay strings. CloudFormation short-form tags are read as
+ * their long form, `!Ref Bucket` as `{ Ref: "Bucket" }`. A stream of several documents, such as
+ * Kubernetes manifests separated by `---`, becomes one object keyed by
+ * each document's `kind` (`Deployment`, `Deployment_2`, ...), or
+ * `document_<n>` for documents without one. Empty documents are skipped.
+ *
+ * @param text - YAML or JSON text
+ * @returns Object to convert
+ * @throws Error if the data is not an object, or the YAML is malformed
+ *
+ * @example
+ * ```typescript
+ * loadYAML("kind: Namespace\n---\nkind: Service\n");
+ * // { Namespace: { kind: "Namespace" }, Service: { kind: "Service" } }
+ * ```
+ */
+export function loadYAML(text: string): Record<string, HCLValue> {
+  const documents = yaml
+    .loadAll(text, undefined, { schema: CLOUDFORMATION_LOAD_SCHEMA })
+    .filter((doc) => doc !== null && doc !== undefined) as HCLValue[];
+
+  if (documents.length <= 1) {
+    const [data = {}] = documents;
+    if (!isObject(data)) {
+      throw new Error("Top-level value must be an object");
+    }
+    return data;
+  }
+
+  // Without a prototype, kinds such as `constructor` are ordinary keys
+  const result: Record<string, HCLValue> = Object.create(null);
+  documents.forEach((doc, index) => {
+    if (!isObject(doc)) {
+      throw new Error(`Document ${index + 1} must be an object`);
+    }
+    const base =
+      typeof doc.kind === "string" ? doc.kind : `document_${index + 1}`;
+    let key = base;
+    for (let n = 2; Object.hasOwn(result, key); n++) key = `${base}_${n}`;
+    result[key] = doc;
+  });
+  return result;
+}
+
+/**
+ * Guesses which service data belongs to, for the `use <service>` directive:
+ * - CloudFormation: `Resources` with `AWS::` types, or an
+ *   `AWSTemplateFormatVersion`
+ * - Grafana: a `dashboard` object
+ * - Kubernetes: a manifest (`apiVersion` and `kind`), or an object whose
+ *   values are all manifests
+ *
+ * @param data - Data to inspect
+ * @returns The detected service, or null
+ */
+export function detectService(data: Record<string, HCLValue>): ServiceType {
+  const { Resources: resources } = data;
+  if (
+    isObject(resources) &&
+    (typeof data.AWSTemplateFormatVersion === "string" ||
+      Object.values(resources).some(
+        (r) =>
+          isObject(r) &&
+          typeof r.Type === "string" &&
+          r.Type.startsWith("AWS::"),
+      ))
+  ) {
+    return "cloudformation";
+  }
+
+  if (isObject(data.dashboard)) return "grafana";
+
+  const isManifest = (value: unknown) =>
+    isObject(value) &&
+    typeof value.apiVersion === "string" &&
+    typeof value.kind === "string";
+  const values = Object.values(data);
+  if (isManifest(data) || (values.length > 0 && values.every(isManifest))) {
+    return "kubernetes";
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether a key can be written without quotes.
+ * @param key - Object key
+ * @returns true for identifiers that are not reserved words
+ */
+function isBareKey(key: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(key) && !RESERVED_KEYS.has(key);
+}
+
+/**
+ * Escapes template sequences, so `${` and `%{` stay literal text.
+ * @param text - Text to escape
+ * @returns Text with `$${` and `%%{` escapes
+ */
+function escapeTemplate(text: string): string {
+  return text.replace(/([$%])\{/g, "$1$1{");
+}
+
+/**
+ * Writes a string as a quoted HCL string.
+ * @param value - String to write
+ * @returns Quoted string with escapes
+ */
+function quote(value: string): string {
+  const escaped = value.replace(/[\\"\u0000-\u001f\u007f]/g, (char) => {
+    switch (char) {
+      case "\n":
+        return "\\n";
+      case "\r":
+        return "\\r";
+      case "\t":
+        return "\\t";
+      case "\\":
+      case '"':
+        return `\\${char}`;
+      default:
+        return `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`;
+    }
+  });
+  return `"${escapeTemplate(escaped)}"`;
+}
+
+/**
+ * Writes a key, quoting it unless it is a plain identifier.
+ * @param key - Object key
+ * @returns Key as written in HCL
+ */
+function writeKey(key: string): string {
+  return isBareKey(key) ? key : quote(key);
+}
+
+/**
+ * Writes a multi-line string as a heredoc. The indented `<<-` form is used
+ * when some line starts without whitespace, so that stripping the common
+ * indentation gives back the exact text.
+ * @param value - String ending in a line break
+ * @param indent - Indentation of the attribute
+ * @returns Heredoc, from the opening marker to the closing one
+ */
+function heredoc(value: string, indent: string): string {
+  const lines = escapeTemplate(value).slice(0, -1).split("\n");
+  let marker = "EOT";
+  for (let n = 2; lines.some((line) => line.trim() === marker); n++) {
+    marker = `EOT${n}`;
+  }
+
+  const flush = lines.some((line) => line.trim() !== "" && /^\S/.test(line));
+  const inner = flush ? indent + INDENT : "";
+  const body = lines.map((line) => (line === "" ? "" : inner + line));
+  const close = flush ? indent + marker : marker;
+  return [`<<${flush ? "-" : ""}${marker}`, ...body, close].join("\n");
+}
+
+/**
+ * Finds the function call that evaluates to a CloudFormation intrinsic.
+ * Only arguments the function reads back unchanged qualify, and `join` and
+ * `split` only where they wouldn't be computed right away, so parsing the
+ * call gives back equal data.
+ * @param value - Value to write
+ * @returns Function name and arguments, or undefined to write the value
+ *   as a plain object
+ */
+function intrinsicCall(
+  value: HCLValue,
+): { name: string; args: HCLValue[] } | undefined {
+  const key = intrinsicKey(value);
+  if (!key) return undefined;
+  const arg = (value as Record<string, HCLValue>)[key]!;
+  const list = Array.isArray(arg) ? arg : [];
+  const length = Array.isArray(arg) ? arg.length : -1;
+  const scalar = (item: HCLValue) => item !== null && typeof item !== "object";
+
+  let ok: boolean;
+  let args = list;
+  switch (key) {
+    case "Ref":
+    case "Condition":
+      ok = typeof arg === "string";
+      args = [arg];
+      break;
+    case "Fn::Base64":
+    case "Fn::GetAZs":
+    case "Fn::ImportValue":
+      ok = true;
+      args = [arg];
+      break;
+    case "Fn::Sub":
+      ok =
+        typeof arg === "string" ||
+        (length === 2 && typeof list[0] === "string" && isObject(list[1]));
+      if (typeof arg === "string") args = [arg];
+      break;
+    case "Fn::GetAtt":
+      ok = length === 2 && list.every((item) => typeof item === "string");
+      break;
+    case "Fn::If":
+      ok = length === 3 && typeof list[0] === "string";
+      break;
+    case "Fn::Join":
+      ok =
+        length === 2 &&
+        typeof list[0] === "string" &&
+        !(Array.isArray(list[1]) && list[1].every(scalar));
+      break;
+    case "Fn::Split":
+      ok =
+        length === 2 &&
+        typeof list[0] === "string" &&
+        typeof list[1] !== "string";
+      break;
+    case "Fn::Equals":
+    case "Fn::Select":
+      ok = length === 2;
+      break;
+    case "Fn::Cidr":
+    case "Fn::FindInMap":
+      ok = length === 3;
+      break;
+    case "Fn::And":
+    case "Fn::Or":
+      ok = length >= 2;
+      break;
+    default:
+      ok = length === 1;
+  }
+  return ok ? { name: INTRINSIC_FUNCTIONS[key]!, args } : undefined;
+}
+
+/**
+ * Writes a value as an HCL expression.
+ * @param value - Value to write
+ * @param indent - Indentation of the line the expression starts on
+ * @param intrinsics - Whether to write CloudFormation intrinsics as calls
+ * @param attribute - Whether the value is the whole value of an attribute,
+ *   where multi-line strings can be heredocs
+ * @returns HCL expression
+ */
+function writeValue(
+  value: HCLValue,
+  indent: string,
+  intrinsics: boolean,
+  attribute = false,
+): string {
+  if (value === null) return "null";
+  if (typeof value === "boolean") return String(value);
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot write ${value} in HCL`);
+    }
+    return String(value);
+  }
+  if (typeof value === "string") {
+    const multiLine = /\n[^]*\n$/.test(value) && !value.includes("\r");
+    return attribute && multiLine ? heredoc(value, indent) : quote(value);
+  }
+
+  const call = intrinsics ? intrinsicCall(value) : undefined;
+  if (call) {
+    const args = call.args.map((arg) => writeValue(arg, indent, intrinsics));
+    return `${call.name}(${args.join(", ")})`;
+  }
+
+  const inner = indent + INDENT;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    const scalars = value.every(
+      (item) =>
+        item === null ||
+        typeof item !== "object" ||
+        (intrinsics && intrinsicCall(item)),
+    );
+    if (scalars) {
+      const inline = `[${value.map((item) => writeValue(item, inner, intrinsics)).join(", ")}]`;
+      const fits = indent.length + inline.length <= MAX_INLINE_LIST;
+      if (fits && !inline.includes("\n")) return inline;
+    }
+    const items = value.map(
+      (item) => `${inner}${writeValue(item, inner, intrinsics)},\n`,
+    );
+    return `[\n${items.join("")}${indent}]`;
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) return "{}";
+  const items = entries.map(
+    ([key, item]) =>
+      `${inner}${writeKey(key)} = ${writeValue(item as HCLValue, inner, intrinsics, true)}\n`,
+  );
+  return `{\n${items.join("")}${indent}}`;
+}
+
+/**
+ * Writes the entries of an object as a body: objects under identifier keys
+ * become blocks, everything else attributes. Blocks are separated from
+ * neighbouring items by a blank line.
+ * @param data - Object to write
+ * @param indent - Indentation of the body's items
+ * @param root - Whether this is the top-level body, where a `locals` block
+ *   would declare local values rather than hold data
+ * @param intrinsics - Whether to write CloudFormation intrinsics as calls
+ * @returns Lines of the body
+ */
+function writeBody(
+  data: Record<string, HCLValue>,
+  indent: string,
+  root: boolean,
+  intrinsics: boolean,
+): string[] {
+  const lines: string[] = [];
+  let previousBlock = false;
+  for (const [key, value] of Object.entries(data)) {
+    const block =
+      isObject(value) &&
+      isBareKey(key) &&
+      !(root && key === "locals") &&
+      !(intrinsics && intrinsicCall(value));
+    if (lines.length > 0 && (block || previousBlock)) lines.push("");
+    previousBlock = block;
+
+    if (!block) {
+      lines.push(
+        `${indent}${writeKey(key)} = ${writeValue(value, indent, intrinsics, true)}`,
+      );
+    } else if (Object.keys(value).length === 0) {
+      lines.push(`${indent}${key} {}`);
+    } else {
+      lines.push(
+        `${indent}${key} {`,
+        ...writeBody(value, indent + INDENT, false, intrinsics),
+        `${indent}}`,
+      );
+    }
+  }
+  return lines;
+}
+
+/**
+ * Converts data to HCL source. Nested objects become blocks, other values
+ * attributes, and lists of objects lists of object literals. Multi-line
+ * strings are written as heredocs and `${` / `%{` are escaped, so parsing
+ * the result with `parseHCL` gives back equal data. The result is laid out
+ * as `hcl2yaml fmt` would. With `use cloudformation`, intrinsic functions
+ * are written as calls: `{ Ref: "Bucket" }` as `ref("Bucket")`.
+ *
+ * @param data - The data object to convert to HCL
+ * @param options - Output options, such as the service directive
+ * @returns HCL text
+ * @throws Error for numbers HCL can't represent, such as `Infinity`
+ *
+ * @example
+ * ```typescript
+ * toHCL({ config: { name: "web", ports: [80, 443] } });
+ * // 'config {\n  name  = "web"\n  ports = [80, 443]\n}\n'
+ * ```
+ */
+export function toHCL(
+  data: Record<string, HCLValue>,
+  options: HCLWriteOptions = {},
+): string {
+  const intrinsics = options.serviceType === "cloudformation";
+  const lines = writeBody(data, "", true, intrinsics);
+  if (options.serviceType) lines.unshift(`use ${options.serviceType}`, "");
+  return formatHCL(`${lines.join("\n")}\n`);
+}
+
+/**
+ * Converts data to HCL and writes it to a file.
+ *
+ * @param data - The data object to convert to HCL
+ * @param outPath - The file path where the HCL will be written
+ * @param options - Output options, such as the service directive
+ *
+ * @example
+ * ```typescript
+ * await writeHCL(loadYAML(text), "main.hcl", { serviceType: "kubernetes" });
+ * ```
+ */
+export async function writeHCL(
+  data: Record<string, HCLValue>,
+  outPath: string,
+  options: HCLWriteOptions = {},
+): Promise<void> {
+  await Bun.write(outPath, toHCL(data, options));
+}
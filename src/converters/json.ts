@@ -0,0 +1,81 @@
+import type { HCLValue } from "../parser/parser";
+
+/**
+ * Options controlling JSON output.
+ */
+export interface JSONWriteOptions {
+  /** Spaces per indentation level; 0 writes everything on one line */
+  indent?: number;
+}
+
+/**
+ * Serializes data as JSON, rejecting numbers JSON can't represent instead
+ * of silently writing them as `null`.
+ * @param data - Data to serialize
+ * @param indent - Spaces per indentation level
+ * @param escape - Rewrites string values before they are written
+ * @returns JSON text ending in a newline
+ */
+function stringify(
+  data: Record<string, HCLValue>,
+  indent: number,
+  escape: (value: string) => string = (value) => value,
+): string {
+  const text = JSON.stringify(
+    data,
+    (_, value: unknown) => {
+      if (typeof value === "number" && !Number.isFinite(value)) {
+        throw new Error(`Cannot write ${value} in JSON`);
+      }
+      return typeof value === "string" ? escape(value) : value;
+    },
+    indent,
+  );
+  return `${text}\n`;
+}
+
+/**
+ * Converts parsed HCL data to a JSON string.
+ *
+ * @param data - The data object to convert to JSON
+ * @param options - Output options
+ * @returns JSON text
+ * @throws Error for numbers JSON can't represent, such as `Infinity`
+ *
+ * @example
+ * ```typescript
+ * toJSON(parseHCL("web { port = 80 }"));
+ * // '{\n  "web": {\n    "port": 80\n  }\n}\n'
+ * ```
+ */
+export function toJSON(
+  data: Record<string, HCLValue>,
+  options: JSONWriteOptions = {},
+): string {
+  return stringify(data, options.indent ?? 2);
+}
+
+/**
+ * Converts parsed HCL data to HCL's JSON syntax, as read by Terraform from
+ * `.tf.json` files. Strings there are templates, so `${` and `%{` are
+ * escaped as `$${` and `%%{` to keep evaluated values literal.
+ *
+ * @param data - The data object to convert to HCL-JSON
+ * @param options - Output options
+ * @returns JSON text
+ * @throws Error for numbers JSON can't represent, such as `Infinity`
+ *
+ * @example
+ * ```typescript
+ * toHCLJSON({ output: { value: "${var.x}" } });
+ * // '{\n  "output": {\n    "value": "$${var.x}"\n  }\n}\n'
+ * ```
+ */
+export function toHCLJSON(
+  data: Record<string, HCLValue>,
+  options: JSONWriteOptions = {},
+): string {
+  return stringify(data, options.indent ?? 2, (value) =>
+    value.replace(/([$%])\{/g, "$1$1{"),
+  );
+}
@@ -0,0 +1,133 @@
+import yaml from "js-yaml";
+import { isObject } from "../../parser/values";
+
+/**
+ * Long-form keys of CloudFormation's intrinsic functions. Each has a YAML
+ * short form, the key without `Fn::` as a tag: `!Ref`, `!GetAtt`, `!Sub`...
+ */
+export const INTRINSIC_KEYS = [
+  "Ref",
+  "Condition",
+  "Fn::Base64",
+  "Fn::Cidr",
+  "Fn::FindInMap",
+  "Fn::GetAtt",
+  "Fn::GetAZs",
+  "Fn::ImportValue",
+  "Fn::Join",
+  "Fn::Select",
+  "Fn::Split",
+  "Fn::Sub",
+  "Fn::And",
+  "Fn::Equals",
+  "Fn::If",
+  "Fn::Not",
+  "Fn::Or",
+] as const;
+
+/**
+ * Finds the intrinsic function a value calls.
+ * @param value - Any value
+ * @returns Long-form key of an object whose only key is an intrinsic
+ *   function, e.g. `Fn::Sub`, or undefined
+ */
+export function intrinsicKey(value: unknown): string | undefined {
+  if (!isObject(value)) return undefined;
+  const keys = Object.keys(value);
+  const [key] = keys;
+  return keys.length === 1 &&
+    (INTRINSIC_KEYS as readonly string[]).includes(key!)
+    ? key
+    : undefined;
+}
+
+/**
+ * Builds the YAML types of one intrinsic function: a type per node kind for
+ * loading (`!Sub text`, `!Sub [text, vars]`, `!Base64 { ... }`), the scalar
+ * one also dumping the long form as the short form. Values that are
+ * themselves objects keep the long form, so nested functions are written
+ * as `Fn::Base64: !Sub ...` rather than a tagged mapping.
+ * @param key - Long-form key
+ * @returns YAML types for the `!<name>` tag
+ */
+function intrinsicTypes(key: string): yaml.Type[] {
+  const tag = `!${key.replace(/^Fn::/, "")}`;
+
+  // `!GetAtt Resource.Attribute` is short for a two-element list
+  const construct = (data: unknown) => {
+    const value = data ?? "";
+    if (key === "Fn::GetAtt" && typeof value === "string") {
+      const dot = value.indexOf(".");
+      return {
+        [key]: dot === -1 ? value : [value.slice(0, dot), value.slice(dot + 1)],
+      };
+    }
+    return { [key]: value };
+  };
+
+  const represent = (data: object) => {
+    const value = (data as Record<string, unknown>)[key];
+    const pair =
+      key === "Fn::GetAtt" &&
+      Array.isArray(value) &&
+      value.length === 2 &&
+      value.every((part) => typeof part === "string") &&
+      !(value[0] as string).includes(".");
+    return pair ? (value as string[]).join(".") : value;
+  };
+
+  return [
+    new yaml.Type(tag, {
+      kind: "scalar",
+      construct,
+      predicate: (data) => {
+        const value = (data as Record<string, unknown>)[key];
+        return (
+          intrinsicKey(data) === key &&
+          (typeof value === "string" || Array.isArray(value))
+        );
+      },
+      represent: represent as (data: object) => string,
+    }),
+    new yaml.Type(tag, { kind: "sequence", construct }),
+    new yaml.Type(tag, { kind: "mapping", construct }),
+  ];
+}
+
+/**
+ * YAML types of every intrinsic function's short-form tag.
+ */
+const INTRINSIC_TYPES = INTRINSIC_KEYS.flatMap(intrinsicTypes);
+
+/**
+ * Schema for reading CloudFormation YAML: the core schema, plus short-form
+ * tags read as their long-form maps (`!Ref X` as `{ Ref: "X" }`).
+ */
+export const CLOUDFORMATION_LOAD_SCHEMA =
+  yaml.CORE_SCHEMA.extend(INTRINSIC_TYPES);
+
+/**
+ * Schema for writing CloudFormation YAML, with intrinsic functions in their
+ * short form (`{ Ref: "X" }` as `!Ref X`).
+ */
+export const CLOUDFORMATION_DUMP_SCHEMA =
+  yaml.DEFAULT_SCHEMA.extend(INTRINSIC_TYPES);
+
+/**
+ * Matches a short-form tag at the end of a line, followed by the space
+ * js-yaml writes after tags even when the tagged node starts below it.
+ */
+const TRAILING_TAG = new RegExp(
+  `(!(?:${INTRINSIC_KEYS.map((key) => key.replace(/^Fn::/, "")).join("|")})) $`,
+  "gm",
+);
+
+/**
+ * Removes the space after short-form tags that end a line, as in
+ * `!Join \n  - ","`, left by dumping with `CLOUDFORMATION_DUMP_SCHEMA`.
+ * @param text - YAML text
+ * @returns YAML text without trailing spaces after tags
+ */
+export function trimTagLines(text: string): string {
+  return text.replace(TRAILING_TAG, "$1");
+}
@@ -0,0 +1,239 @@
+import { z } from "zod";
+import type { HCLValue } from "../../parser/parser";
+import { attachComments, getComments } from "../../parser/comments";
+import { isObject } from "../../parser/values";
+import { SchemaValidationError } from "../../validation/validator";
+import {
+  GRID_WIDTH,
+  type GrafanaLayout,
+  grafanaLayoutSchema,
+} from "../../validation/services/grafana";
+
+/**
+ * Where the next panel goes: the column and row of the current line, and
+ * the row below its tallest panel.
+ */
+interface Cursor {
+  x: number;
+  y: number;
+  bottom: number;
+}
+
+/**
+ * Lists a dashboard's or row's panels. Panels written as blocks
+ * (`panels { cpu { ... } }`) are listed in order, as Grafana reads them only
+ * from a list. Each panel's comments are recorded in `notes`, to be
+ * attached again once the panels are in their final list.
+ * @param panels - Panels as a list or as an object keyed by block name
+ * @param notes - Receives the comments of each panel
+ * @returns Panels as a list
+ */
+function panelList(
+  panels: HCLValue | undefined,
+  notes: Map<HCLValue, string[]>,
+): HCLValue[] {
+  if (!Array.isArray(panels) && !isObject(panels)) return [];
+  const entries = Array.isArray(panels)
+    ? panels.map((panel, i) => [i, panel] as const)
+    : Object.entries(panels);
+  return entries.map(([key, panel]) => {
+    const comments = getComments(panels, key);
+    if (comments) notes.set(panel, comments);
+    return panel;
+  });
+}
+
+/**
+ * Moves the cursor to the start of a new line, below every panel so far.
+ * @param cursor - Layout position
+ */
+function newLine(cursor: Cursor): void {
+  cursor.x = 0;
+  cursor.y = cursor.bottom;
+}
+
+/**
+ * Gives a panel its grid position: after the previous panel, or on a new
+ * line when it doesn't fit. A `gridPos` with `x` and `y` is kept as given;
+ * one with only `w` and `h` sets the panel's size.
+ * @param panel - Panel to place
+ * @param cursor - Layout position, advanced past the panel
+ * @param layout - Default panel sizes
+ */
+function place(
+  panel: Record<string, HCLValue>,
+  cursor: Cursor,
+  layout: GrafanaLayout,
+): void {
+  const given = isObject(panel.gridPos) ? panel.gridPos : {};
+  const { x, y } = given;
+  const w = typeof given.w === "number" ? given.w : layout.width;
+  const h = typeof given.h === "number" ? given.h : layout.height;
+
+  if (typeof x === "number" && typeof y === "number") {
+    cursor.bottom = Math.max(cursor.bottom, y + h);
+    return;
+  }
+  if (cursor.x > 0 && cursor.x + w > GRID_WIDTH) newLine(cursor);
+  panel.gridPos = { x: cursor.x, y: cursor.y, w, h };
+  cursor.x += w;
+  cursor.bottom = Math.max(cursor.bottom, cursor.y + h);
+}
+
+/**
+ * Lays out panels in order, left to right and top to bottom. A `row` panel
+ * starts a full-width line, followed by the panels of its `panels` block:
+ * after it in the dashboard's list when expanded, or inside the row when
+ * `collapsed = true`, as Grafana stores them.
+ * @param panels - Panels to lay out
+ * @param cursor - Layout position
+ * @param layout - Default panel sizes
+ * @param notes - Comments of panels written as blocks
+ * @returns The panels of the dashboard's list, rows' contents included
+ */
+function layoutPanels(
+  panels: HCLValue[],
+  cursor: Cursor,
+  layout: GrafanaLayout,
+  notes: Map<HCLValue, string[]>,
+): HCLValue[] {
+  const out: HCLValue[] = [];
+  for (const panel of panels) {
+    out.push(panel);
+    if (!isObject(panel)) continue;
+    if (panel.type !== "row") {
+      place(panel, cursor, layout);
+      continue;
+    }
+
+    newLine(cursor);
+    const top = cursor.y;
+    panel.gridPos = { x: 0, y: top, w: GRID_WIDTH, h: 1 };
+    cursor.y = cursor.bottom = top + 1;
+
+    const children = panelList(panel.panels, notes);
+    const placed = layoutPanels(children, cursor, layout, notes);
+    newLine(cursor);
+    if (panel.collapsed === true) {
+      // Hidden panels take up no space until the row is expanded
+      panel.panels = placed;
+      cursor.y = cursor.bottom = top + 1;
+    } else {
+      panel.panels = [];
+      out.push(...placed);
+    }
+  }
+  return out;
+}
+
+/**
+ * Gives every panel without an `id` one, counting up from the highest id
+ * already used, so ids stay unique.
+ * @param panels - The dashboard's panels
+ */
+function assignIds(panels: HCLValue[]): void {
+  const all = panels.flatMap((panel) =>
+    isObject(panel) && Array.isArray(panel.panels)
+      ? [panel, ...panel.panels]
+      : [panel],
+  );
+  const ids = all.map((panel) =>
+    isObject(panel) && typeof panel.id === "number" ? panel.id : 0,
+  );
+  let next = Math.max(0, ...ids) + 1;
+  for (const panel of all) {
+    if (isObject(panel) && typeof panel.id !== "number") panel.id = next++;
+  }
+}
+
+/**
+ * Applies a dashboard's `layout` block: panels are listed in order, given a
+ * `gridPos` on Grafana's 24-column grid and a unique `id`, and `row` panels
+ * hold or precede their own panels. The `layout` block itself is removed,
+ * as it isn't part of Grafana's dashboard model. Dashboards without one are
+ * left as they are.
+ *
+ * The data is changed in place, so comments recorded for it are kept.
+ *
+ * @param data - Parsed data of a `use grafana` file
+ * @throws SchemaValidationError if the layout options are invalid
+ *
+ * @example
+ * ```typescript
+ * const data = parseHCL(`
+ *   dashboard {
+ *     layout {
+ *       columns = 2
+ *     }
+ *     panels {
+ *       cpu { ... }
+ *       memory { ... }
+ *     }
+ *   }
+ * `);
+ * layoutDashboard(data);
+ * // data.dashboard.panels[1].gridPos: { x: 12, y: 0, w: 12, h: 8 }
+ * ```
+ */
+export function layoutDashboard(data: Record<string, HCLValue>): void {
+  const { dashboard } = data;
+  if (!isObject(dashboard) || dashboard.layout === undefined) return;
+
+  const result = grafanaLayoutSchema.safeParse(dashboard.layout);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => ({
+      ...issue,
+      path: ["dashboard", "layout", ...issue.path],
+    }));
+    throw new SchemaValidationError("Grafana layout", new z.ZodError(issues));
+  }
+  delete dashboard.layout;
+
+  const notes = new Map<HCLValue, string[]>();
+  const cursor = { x: 0, y: 0, bottom: 0 };
+  const panels = layoutPanels(
+    panelList(dashboard.panels, notes),
+    cursor,
+    result.data,
+    notes,
+  );
+  assignIds(panels);
+
+  for (const list of [panels, ...panels.map((p) => isObject(p) && p.panels)]) {
+    if (!Array.isArray(list)) continue;
+    list.forEach((panel, i) => attachComments(list, i, notes.get(panel) ?? []));
+  }
+  dashboard.panels = panels;
+}
+
+/**
+ * Wraps a dashboard in the envelope of Grafana's dashboard API
+ * (`POST /api/dashboards/db`): `{ dashboard, folderUid, message, overwrite }`.
+ * `folderUid` and `message` are taken from top-level attributes of the same
+ * name when present, and `overwrite` defaults to false. Panels written as
+ * blocks are listed, as Grafana reads them only from a list.
+ *
+ * @param data - Parsed data of a `use grafana` file
+ * @returns Request body for the dashboard API
+ *
+ * @example
+ * ```typescript
+ * dashboardEnvelope({ dashboard: { title: "CPU" }, folderUid: "ops" });
+ * // { dashboard: { title: "CPU" }, folderUid: "ops", overwrite: false }
+ * ```
+ */
+export function dashboardEnvelope(
+  data: Record<string, HCLValue>,
+): Record<string, HCLValue> {
+  const { dashboard = null, folderUid, message, overwrite = false } = data;
+  const envelope: Record<string, HCLValue> = {
+    dashboard:
+      isObject(dashboard) && isObject(dashboard.panels)
+        ? { ...dashboard, panels: panelList(dashboard.panels, new Map()) }
+        : dashboard,
+  };
+  if (folderUid !== undefined) envelope.folderUid = folderUid;
+  if (message !== undefined) envelope.message = message;
+  envelope.overwrite = overwrite;
+  return envelope;
+}
@@ -0,0 +1,164 @@
+import type { HCLValue } from "../parser/parser";
+import { getComments } from "../parser/comments";
+import { isObject } from "../parser/values";
+
+/**
+ * Options controlling TOML output.
+ */
+export interface TOMLWriteOptions {
+  /** Re-emit HCL comments as `#` comments above keys and table headers */
+  keepComments?: boolean;
+}
+
+/**
+ * Checks whether a value is written as an array of tables (`[[name]]`).
+ * @param value - Value to check
+ * @returns true for non-empty lists of objects
+ */
+function isTableArray(value: HCLValue): value is Record<string, HCLValue>[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isObject);
+}
+
+/**
+ * Writes a string as a TOML basic string.
+ * @param value - String to write
+ * @returns Quoted string with escapes
+ */
+function quote(value: string): string {
+  const escaped = value.replace(/[\\"\u0000-\u001f\u007f]/g, (char) => {
+    switch (char) {
+      case "\b":
+        return "\\b";
+      case "\t":
+        return "\\t";
+      case "\n":
+        return "\\n";
+      case "\f":
+        return "\\f";
+      case "\r":
+        return "\\r";
+      case "\\":
+      case '"':
+        return `\\${char}`;
+      default:
+        return `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`;
+    }
+  });
+  return `"${escaped}"`;
+}
+
+/**
+ * Writes a key, quoting it unless it is a bare TOML key.
+ * @param key - Object key
+ * @returns Key as written in TOML
+ */
+function writeKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : quote(key);
+}
+
+/**
+ * Writes a value inline: scalars, arrays and inline tables.
+ * @param value - Value to write
+ * @param path - Keys leading to the value, for error messages
+ * @returns TOML value
+ * @throws Error for null, which TOML has no way to write
+ */
+function writeValue(value: HCLValue, path: string[]): string {
+  if (value === null) {
+    throw new Error(
+      `Cannot write null at '${path.join(".")}' in TOML, which has no null value`,
+    );
+  }
+  if (typeof value === "boolean") return String(value);
+  if (typeof value === "number") {
+    if (Number.isNaN(value)) return "nan";
+    if (!Number.isFinite(value)) return value > 0 ? "inf" : "-inf";
+    return String(value);
+  }
+  if (typeof value === "string") return quote(value);
+  if (Array.isArray(value)) {
+    const items = value.map((item, i) => writeValue(item, [...path, `${i}`]));
+    return `[${items.join(", ")}]`;
+  }
+
+  const entries = Object.entries(value).map(
+    ([key, item]) =>
+      `${writeKey(key)} = ${writeValue(item as HCLValue, [...path, key])}`,
+  );
+  return entries.length === 0 ? "{}" : `{ ${entries.join(", ")} }`;
+}
+
+/**
+ * Writes the entries of a table: key/value pairs first, as TOML requires,
+ * then nested tables and arrays of tables under their own headers.
+ * @param table - Table to write
+ * @param path - Keys leading to the table
+ * @param out - Receives the output lines
+ * @param options - Output options
+ */
+function writeTable(
+  table: Record<string, HCLValue>,
+  path: string[],
+  out: string[],
+  options: TOMLWriteOptions,
+): void {
+  const comments = (container: object, key: string | number) =>
+    (options.keepComments ? (getComments(container, key) ?? []) : []).map(
+      (line) => (line ? `# ${line}` : "#"),
+    );
+
+  const nested: [string, Record<string, HCLValue> | HCLValue[]][] = [];
+  for (const [key, value] of Object.entries(table)) {
+    if (isObject(value) || isTableArray(value)) {
+      nested.push([key, value]);
+      continue;
+    }
+    out.push(
+      ...comments(table, key),
+      `${writeKey(key)} = ${writeValue(value, [...path, key])}`,
+    );
+  }
+
+  for (const [key, value] of nested) {
+    const child = [...path, key];
+    const header = child.map(writeKey).join(".");
+    if (out.length > 0) out.push("");
+    out.push(...comments(table, key));
+
+    if (!Array.isArray(value)) {
+      out.push(`[${header}]`);
+      writeTable(value, child, out, options);
+      continue;
+    }
+    value.forEach((item, index) => {
+      if (index > 0) out.push("");
+      out.push(...comments(value, index), `[[${header}]]`);
+      writeTable(item as Record<string, HCLValue>, child, out, options);
+    });
+  }
+}
+
+/**
+ * Converts parsed HCL data to a TOML string. Nested objects become tables
+ * and lists of objects arrays of tables; objects inside other lists are
+ * written as inline tables.
+ *
+ * @param data - The data object to convert to TOML
+ * @param options - Output options
+ * @returns TOML text
+ * @throws Error if the data contains null, which TOML can't represent
+ *
+ * @example
+ * ```typescript
+ * toTOML(parseHCL('web {\n  port = 80\n}\nname = "app"'));
+ * // 'name = "app"\n\n[web]\nport = 80\n'
+ * ```
+ */
+export function toTOML(
+  data: Record<string, HCLValue>,
+  options: TOMLWriteOptions = {},
+): string {
+  const out: string[] = [];
+  writeTable(data, [], out, options);
+  return out.length > 0 ? `${out.join("\n")}\n` : "";
+}
@@ -3,59 +3,114 @@
  */
 export type ServiceType = "cloudformation" | "grafana" | "kubernetes" | null;
 
+/**
+ * An `include "path"` or `import "path" as name` directive.
+ */
+export interface IncludeDirective {
+  /**
+   * `include` merges the file's items into the document; `import` binds
+   * the file's values to `name` instead
+   */
+  kind: "include" | "import";
+  /** Path as written, relative to the including file */
+  path: string;
+  /** Name an imported file's values are bound to */
+  name?: string;
+  /** Offset of the directive in the input */
+  offset: number;
+}
+
 /**
  * Result of parsing directives from HCL input
  */
 export interface DirectiveResult {
   serviceType: ServiceType;
   cleanedInput: string;
+  /** Offset of the `use` directive in the input, when one was found */
+  offset?: number;
+  /** `include` and `import` directives, in source order */
+  includes: IncludeDirective[];
 }
 
 /**
- * Parses 'use <service>' directives from HCL input.
+ * One item of the file header: whitespace, a comment, or a directive. An
+ * `include` or `import` must end its line, so that a block such as
+ * `include "x" { }` is not mistaken for one.
+ */
+const HEADER_ITEM = new RegExp(
+  [
+    /\s+|#.*|\/\/.*|\/\*[\s\S]*?\*\//.source,
+    /(use)\s+(cloudformation|grafana|kubernetes)\b/.source,
+    /(include)[ \t]+"([^"\r\n]*)"(?=[ \t]*(?:#|\/\/|\r?\n|$))/.source,
+    /(import)[ \t]+"([^"\r\n]*)"[ \t]+as[ \t]+([a-zA-Z_][a-zA-Z0-9_-]*)(?=[ \t]*(?:#|\/\/|\r?\n|$))/
+      .source,
+  ].join("|"),
+  "iy",
+);
+
+/**
+ * Parses directives from the header of HCL input.
  *
- * Directive syntax: `use <service>` where service is one of:
- * - cloudformation
- * - grafana
- * - kubernetes
+ * Directive syntax:
+ * - `use <service>` where service is one of cloudformation, grafana or
+ *   kubernetes (at most once)
+ * - `include "path"` to merge another file's items into this one
+ * - `import "path" as name` to make another file's values available as
+ *   `name`
  *
- * The directive must appear at the beginning of the file (before any other HCL content).
- * It will be stripped from the input before parsing.
+ * Directives must appear at the beginning of the file, one per line,
+ * before any other HCL content; comments may come before and between them.
+ * They are blanked out of the input before parsing, keeping line and
+ * column positions of the remaining content unchanged.
  *
- * @param input - The HCL string potentially containing a 'use' directive
- * @returns Object containing the detected service type and cleaned input
+ * @param input - The HCL string potentially containing directives
+ * @returns Object containing the detected service type, the includes and
+ *   cleaned input
  *
  * @example
  * ```typescript
  * const { serviceType, cleanedInput } = parseDirective('use cloudformation\n\nResources { }');
  * // serviceType: "cloudformation"
- * // cleanedInput: "\n\nResources { }"
+ * // cleanedInput: "                  \n\nResources { }"
  * ```
  */
 export function parseDirective(input: string): DirectiveResult {
-  // Regex to match 'use <service>' at the start of the file
-  // Allows for leading whitespace and comments
-  const directiveRegex =
-    /^\s*(?:\/\/.*\n|\/\*[\s\S]*?\*\/|\#.*\n)*\s*use\s+(cloudformation|grafana|kubernetes)\s*/i;
-
-  const match = input.match(directiveRegex);
+  const result: DirectiveResult = {
+    serviceType: null,
+    cleanedInput: input,
+    includes: [],
+  };
 
-  if (match) {
-    const serviceType = match[1]?.toLowerCase() as ServiceType;
-    // Remove the directive from the input
-    const cleanedInput = input.slice(match[0].length);
+  HEADER_ITEM.lastIndex = 0;
+  for (let match; (match = HEADER_ITEM.exec(input)); ) {
+    const offset = match.index;
+    if (match[1]) {
+      // A second `use` is left in place, to be reported by the parser
+      if (result.serviceType) break;
+      result.serviceType = match[2]!.toLowerCase() as ServiceType;
+      result.offset = offset;
+    } else if (match[3]) {
+      result.includes.push({ kind: "include", path: match[4]!, offset });
+    } else if (match[5]) {
+      result.includes.push({
+        kind: "import",
+        path: match[6]!,
+        name: match[7]!,
+        offset,
+      });
+    } else {
+      continue;
+    }
 
-    return {
-      serviceType,
-      cleanedInput,
-    };
+    // Replace the directive with spaces so token positions stay accurate
+    const { cleanedInput } = result;
+    result.cleanedInput =
+      cleanedInput.slice(0, offset) +
+      " ".repeat(match[0].length) +
+      cleanedInput.slice(offset + match[0].length);
   }
 
-  // No directive found, return null service type and original input
-  return {
-    serviceType: null,
-    cleanedInput: input,
-  };
+  return result;
 }
 
 /**
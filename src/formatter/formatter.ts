@@ -0,0 +1,346 @@
+import { parseCST } from "../parser/parser";
+import {
+  type CSTAttribute,
+  type CSTBlock,
+  type CSTBody,
+  type CSTToken,
+  type Trivia,
+  firstToken,
+  keyText,
+} from "../parser/cst";
+import { parseDirective } from "../directives/parser";
+
+/**
+ * One level of indentation.
+ */
+const INDENT = "  ";
+
+/**
+ * Checks whether a token opens a bracket pair.
+ * @param ct - Token to check
+ * @returns true for `{`, `[` and `(`
+ */
+function isOpener(ct: CSTToken): boolean {
+  return ct.token.type === "symbol" && "{[(".includes(ct.token.value);
+}
+
+/**
+ * Checks whether a token closes a bracket pair.
+ * @param ct - Token to check
+ * @returns true for `}`, `]` and `)`
+ */
+function isCloser(ct: CSTToken): boolean {
+  return ct.token.type === "symbol" && "}])".includes(ct.token.value);
+}
+
+/**
+ * Checks whether trivia contains a blank line.
+ * @param trivia - Trivia before a token
+ * @returns true if two line breaks are separated only by whitespace
+ */
+function hasBlankLine(trivia: Trivia[]): boolean {
+  let newlines = 0;
+  for (const t of trivia) {
+    if (t.kind === "comment") newlines = 0;
+    else if (t.kind === "newline" && ++newlines >= 2) return true;
+  }
+  return false;
+}
+
+/**
+ * Checks whether an attribute fits on one line, so it can take part in
+ * `=` alignment.
+ * @param attr - Attribute to check
+ * @returns true if the value has no line breaks
+ */
+function isSingleLine(attr: CSTAttribute): boolean {
+  return attr.value.every(
+    (ct, i) =>
+      !ct.token.raw.includes("\n") &&
+      (i === 0 || !ct.leading.some((t) => t.kind === "newline")),
+  );
+}
+
+/**
+ * Computes the name width each attribute is padded to, so that `=` signs
+ * line up within runs of consecutive single-line attributes. A blank line,
+ * a block or a multi-line attribute ends a run.
+ *
+ * @param body - Body whose attributes are aligned
+ * @returns Padded name width per attribute
+ */
+function alignmentWidths(body: CSTBody): Map<CSTAttribute, number> {
+  const widths = new Map<CSTAttribute, number>();
+  let group: CSTAttribute[] = [];
+
+  const close = () => {
+    const width = Math.max(0, ...group.map((a) => keyText(a).length));
+    for (const attr of group) widths.set(attr, width);
+    group = [];
+  };
+
+  for (const item of body.items) {
+    if (hasBlankLine(firstToken(item).leading)) close();
+    if (item.type === "attribute" && isSingleLine(item)) {
+      group.push(item);
+    } else {
+      close();
+    }
+  }
+  close();
+  return widths;
+}
+
+/**
+ * Formats HCL source canonically:
+ * - two-space indentation, one attribute or block per line
+ * - `=` aligned across consecutive single-line attributes
+ * - at most one blank line between items, none at the start or end of a body
+ * - comments kept, on their own line or after the item they follow
+ *
+ * Expressions keep their tokens and spacing; multi-line values are
+ * re-indented by bracket nesting. Heredoc bodies are left untouched, but
+ * for line endings: the output always uses `\n`, even for CRLF sources.
+ * Directives (`use`, `include`, `import`) stay at the top, one per line,
+ * followed by a blank line.
+ *
+ * @param source - HCL source, optionally with a `use <service>` directive
+ * @param file - File name used in error locations (defaults to `<input>`)
+ * @returns Formatted source ending in a single newline
+ * @throws HCLParseError if the source cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * formatHCL('app {\nname="web"\nreplicas=3\n}');
+ * // 'app {\n  name     = "web"\n  replicas = 3\n}\n'
+ * ```
+ */
+export function formatHCL(source: string, file = "<input>"): string {
+  const { serviceType, cleanedInput, offset, includes } =
+    parseDirective(source);
+  const document = parseCST(cleanedInput, file);
+
+  // Directives in source order, as written back
+  const directives = includes.map(({ kind, path, name, offset }) => ({
+    offset,
+    text:
+      kind === "import" ? `import "${path}" as ${name}` : `include "${path}"`,
+  }));
+  if (serviceType) {
+    directives.push({ offset: offset!, text: `use ${serviceType}` });
+  }
+  directives.sort((a, b) => a.offset - b.offset);
+
+  // Completed output lines, and the line being built
+  const out: string[] = [];
+  let line = "";
+  // Line comments met between tokens of a line, written at its end
+  let deferred: string[] = [];
+  // Suppresses blank lines at the start of the file or of a block body
+  let bodyStart = true;
+
+  /**
+   * Completes the current line, if anything was written to it.
+   */
+  function endLine(): void {
+    if (line !== "") out.push([line.trimEnd(), ...deferred].join(" "));
+    line = "";
+    deferred = [];
+  }
+
+  /**
+   * Completes the current line and adds a blank line, unless one is already
+   * there or a body has just started.
+   */
+  function blankLine(): void {
+    endLine();
+    if (!bodyStart && out.length > 0 && out[out.length - 1] !== "") {
+      out.push("");
+    }
+  }
+
+  /**
+   * Writes the comments in trivia. Comments before the first line break
+   * stay on the current line; later ones get their own line, keeping at
+   * most one blank line before them.
+   * @param trivia - Trivia to write
+   * @param indent - Indentation of comments on their own line
+   * @returns Whether the trivia broke the line, and whether a blank line
+   *   follows the last comment
+   */
+  function writeTrivia(
+    trivia: Trivia[],
+    indent: string,
+  ): { broken: boolean; blank: boolean } {
+    let broken = false;
+    let newlines = 0;
+    for (const t of trivia) {
+      if (t.kind === "newline") {
+        if (!broken) endLine();
+        broken = true;
+        newlines++;
+      } else if (t.kind === "comment") {
+        if (!broken && line !== "") {
+          line += ` ${t.text}`;
+        } else {
+          if (newlines >= 2) blankLine();
+          endLine();
+          line = indent + t.text;
+          bodyStart = false;
+          broken = true;
+        }
+        newlines = 0;
+      }
+    }
+    return { broken, blank: newlines >= 2 };
+  }
+
+  /**
+   * Starts a new line for a token after writing its leading comments.
+   * @param trivia - Trivia before the token
+   * @param indent - Indentation of the token
+   * @param commentIndent - Indentation of comments on their own line
+   */
+  function startLine(trivia: Trivia[], indent: string, commentIndent: string) {
+    const { blank } = writeTrivia(trivia, commentIndent);
+    if (blank) blankLine();
+    endLine();
+    line = indent;
+    bodyStart = false;
+  }
+
+  /**
+   * Appends a token to the current line, keeping a space before it if
+   * there was whitespace in the source. Block comments stay in place; line
+   * comments move to the end of the line so they don't swallow the token.
+   * @param ct - Token to append
+   * @param space - Whether to always put a space before the token
+   */
+  function append(ct: CSTToken, space = ct.leading.length > 0): void {
+    for (const t of ct.leading) {
+      if (t.kind !== "comment") continue;
+      if (t.text.startsWith("/*")) line += ` ${t.text}`;
+      else deferred.push(t.text);
+    }
+    line += (space ? " " : "") + ct.token.raw;
+  }
+
+  /**
+   * Writes an attribute value, re-indenting continuation lines by one
+   * level for each line that opens more brackets than it closes.
+   * @param attr - Attribute whose value is written
+   * @param indent - Indentation of the attribute
+   */
+  function writeValue(attr: CSTAttribute, indent: string): void {
+    let level = 0;
+    let net = 0;
+    attr.value.forEach((ct, i) => {
+      if (i > 0 && ct.leading.some((t) => t.kind === "newline")) {
+        if (net > 0) level++;
+        else if (net < 0) level = Math.max(0, level - 1);
+        net = 0;
+        const depth = isCloser(ct) ? Math.max(0, level - 1) : level;
+        startLine(
+          ct.leading,
+          indent + INDENT.repeat(depth),
+          indent + INDENT.repeat(level),
+        );
+        line += ct.token.raw;
+      } else {
+        append(ct, i === 0 || ct.leading.length > 0);
+      }
+      net += isOpener(ct) ? 1 : isCloser(ct) ? -1 : 0;
+    });
+  }
+
+  /**
+   * Writes the attributes and blocks of a body.
+   * @param body - Body to write
+   * @param indent - Indentation of the body's items
+   */
+  function writeBody(body: CSTBody, indent: string): void {
+    const widths = alignmentWidths(body);
+    for (const item of body.items) {
+      const first = firstToken(item);
+      if (item === document.body.items[0] && directives.length > 0) {
+        writeDirectives(first.leading);
+      } else {
+        startLine(first.leading, indent, indent);
+      }
+      if (item.type === "attribute") {
+        line += first.token.raw;
+        for (const ct of item.key.slice(1)) append(ct);
+        const width = widths.get(item) ?? 0;
+        line += " ".repeat(Math.max(0, width - keyText(item).length));
+        append(item.equals, true);
+        writeValue(item, indent);
+      } else {
+        writeBlock(item, indent);
+      }
+    }
+  }
+
+  /**
+   * Writes a block header, its body and closing brace. Blocks without
+   * content are written as `name {}`.
+   * @param block - Block to write
+   * @param indent - Indentation of the block
+   */
+  function writeBlock(block: CSTBlock, indent: string): void {
+    line += block.name.token.raw;
+    for (const label of block.labels) append(label, true);
+    append(block.open, true);
+
+    const inner = indent + INDENT;
+    const empty =
+      block.body.items.length === 0 &&
+      !block.close.leading.some((t) => t.kind === "comment");
+    if (empty) {
+      line += block.close.token.raw;
+      return;
+    }
+
+    bodyStart = true;
+    writeBody(block.body, inner);
+    writeTrivia(block.close.leading, inner);
+    endLine();
+    while (out[out.length - 1] === "") out.pop();
+    line = indent + block.close.token.raw;
+  }
+
+  /**
+   * Writes the directives, each after the comments that came before it,
+   * then the comments after the last one.
+   * @param trivia - Trivia before the first token, containing the directives
+   */
+  function writeDirectives(trivia: Trivia[]): void {
+    let at = 0;
+    let index = 0;
+    for (const directive of directives) {
+      const start = index;
+      while (index < trivia.length && at < directive.offset) {
+        at += trivia[index]!.text.length;
+        index++;
+      }
+      writeTrivia(trivia.slice(start, index), "");
+      endLine();
+      out.push(directive.text);
+      bodyStart = false;
+    }
+    blankLine();
+    startLine(trivia.slice(index), "", "");
+  }
+
+  if (directives.length > 0 && document.body.items.length === 0) {
+    writeDirectives(document.trailing);
+  } else {
+    writeBody(document.body, "");
+    writeTrivia(document.trailing, "");
+  }
+  endLine();
+  while (out[out.length - 1] === "") out.pop();
+
+  // Heredocs and block comments are copied as written, CRLF included
+  const text = out.join("\n").replace(/\r\n/g, "\n");
+  return out.length > 0 ? `${text}\n` : "";
+}
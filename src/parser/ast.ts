@@ -0,0 +1,153 @@
+import type { SourceLocation } from "./lexer";
+
+/**
+ * A step in a traversal such as `local.ports[0]` or a splat such as `list[*].name`.
+ */
+export type TraversalStep =
+  | { kind: "attribute"; name: string; loc: SourceLocation }
+  | { kind: "index"; key: Expression; loc: SourceLocation };
+
+/**
+ * Represents an HCL expression before evaluation.
+ */
+export type Expression =
+  | {
+      kind: "literal";
+      value: string | number | boolean | null;
+      loc: SourceLocation;
+    }
+  | { kind: "template"; parts: TemplatePart[]; loc: SourceLocation }
+  | { kind: "tuple"; items: Expression[]; loc: SourceLocation }
+  | { kind: "object"; body: Body; loc: SourceLocation }
+  | { kind: "variable"; name: string; loc: SourceLocation }
+  | {
+      kind: "call";
+      name: string;
+      args: Expression[];
+      /** Whether the last argument is a list expanded into arguments (`...`) */
+      expandFinal: boolean;
+      loc: SourceLocation;
+    }
+  | {
+      kind: "traversal";
+      target: Expression;
+      steps: TraversalStep[];
+      loc: SourceLocation;
+    }
+  | {
+      kind: "splat";
+      target: Expression;
+      steps: TraversalStep[];
+      loc: SourceLocation;
+    }
+  | {
+      kind: "unary";
+      operator: UnaryOperator;
+      operand: Expression;
+      loc: SourceLocation;
+    }
+  | {
+      kind: "binary";
+      operator: BinaryOperator;
+      left: Expression;
+      right: Expression;
+      loc: SourceLocation;
+    }
+  | {
+      kind: "conditional";
+      condition: Expression;
+      then: Expression;
+      else: Expression;
+      loc: SourceLocation;
+    }
+  | {
+      kind: "for";
+      keyVar?: string;
+      valueVar: string;
+      collection: Expression;
+      /** Key expression; present for object (`{for ...}`) results */
+      key?: Expression;
+      value: Expression;
+      condition?: Expression;
+      /** Whether values are grouped into lists by key (`...`) */
+      grouping: boolean;
+      loc: SourceLocation;
+    };
+
+/**
+ * Prefix operators.
+ */
+export type UnaryOperator = "!" | "-";
+
+/**
+ * Infix operators, listed from lowest to highest precedence.
+ */
+export const BINARY_OPERATORS = [
+  ["||"],
+  ["&&"],
+  ["==", "!="],
+  ["<", ">", "<=", ">="],
+  ["+", "-"],
+  ["*", "/", "%"],
+] as const;
+
+/**
+ * Any infix operator.
+ */
+export type BinaryOperator = (typeof BINARY_OPERATORS)[number][number];
+
+/**
+ * A piece of a template string: literal text, an `${...}` interpolation,
+ * or a `%{ if }` / `%{ for }` directive with its nested parts.
+ */
+export type TemplatePart =
+  | { kind: "text"; value: string }
+  | { kind: "interpolation"; expr: Expression }
+  | {
+      kind: "if";
+      condition: Expression;
+      then: TemplatePart[];
+      else: TemplatePart[];
+    }
+  | {
+      kind: "for";
+      keyVar?: string;
+      valueVar: string;
+      collection: Expression;
+      body: TemplatePart[];
+    };
+
+/**
+ * An attribute assignment: `name = expression`.
+ */
+export interface Attribute {
+  type: "attribute";
+  /** Attribute name; the source text of the key when `key` is set */
+  name: string;
+  /** Key of an object attribute computed from a template or expression */
+  key?: Expression;
+  expr: Expression;
+  loc: SourceLocation;
+  /** Comments written above the attribute or after it on the same line */
+  comments?: string[];
+}
+
+/**
+ * A block: `name "label"* { body }`.
+ */
+export interface Block {
+  type: "block";
+  name: string;
+  labels: string[];
+  body: Body;
+  loc: SourceLocation;
+  /** Comments written above the block or after its closing brace */
+  comments?: string[];
+}
+
+/**
+ * A sequence of attributes and blocks, in source order.
+ */
+export interface Body {
+  items: (Attribute | Block)[];
+}
@@ -0,0 +1,66 @@
+/**
+ * Source comments of evaluated values, by container and key.
+ *
+ * Comments are kept out of the values themselves so that parsed data stays
+ * plain JSON-compatible; writers that support comments look them up here.
+ */
+const registry = new WeakMap<object, Map<string, string[]>>();
+
+/**
+ * Records comment lines for a key of an object, or an index of a list.
+ *
+ * @param container - Object or list holding the commented value
+ * @param key - Property name, or list index
+ * @param lines - Comment lines, appended to any already recorded (nothing is
+ *   recorded when empty)
+ */
+export function attachComments(
+  container: object,
+  key: string | number,
+  lines: string[],
+): void {
+  if (lines.length === 0) return;
+  let comments = registry.get(container);
+  if (!comments) {
+    comments = new Map();
+    registry.set(container, comments);
+  }
+  comments.set(String(key), [...(comments.get(String(key)) ?? []), ...lines]);
+}
+
+/**
+ * Removes and returns the comment lines recorded for a key.
+ *
+ * @param container - Object or list holding the commented value
+ * @param key - Property name, or list index
+ * @returns The removed lines, or undefined if there were none
+ */
+export function detachComments(
+  container: object,
+  key: string | number,
+): string[] | undefined {
+  const comments = registry.get(container);
+  const lines = comments?.get(String(key));
+  comments?.delete(String(key));
+  return lines;
+}
+
+/**
+ * Returns the comment lines recorded for a key.
+ *
+ * @param container - Object or list holding the commented value
+ * @param key - Property name, or list index
+ * @returns Comment lines, or undefined if there are none
+ *
+ * @example
+ * ```typescript
+ * const data = parseHCL("# Web tier\nweb { }");
+ * getComments(data, "web"); // ["Web tier"]
+ * ```
+ */
+export function getComments(
+  container: object,
+  key: string | number,
+): string[] | undefined {
+  return registry.get(container)?.get(String(key));
+}
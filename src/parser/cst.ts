@@ -0,0 +1,206 @@
+import type { Attribute, Block, Body, Expression } from "./ast";
+import type { Token } from "./lexer";
+
+/**
+ * Source text between tokens: spaces and tabs, line breaks, or comments.
+ */
+export interface Trivia {
+  kind: "whitespace" | "newline" | "comment";
+  text: string;
+}
+
+/**
+ * A token together with the trivia that precedes it.
+ */
+export interface CSTToken {
+  token: Token;
+  leading: Trivia[];
+}
+
+/**
+ * An attribute: `key = value`, with every token of the key and value.
+ */
+export interface CSTAttribute {
+  type: "attribute";
+  /** Tokens of the key: an identifier, a quoted string or `(expression)` */
+  key: CSTToken[];
+  /** Parsed key, unless it is an identifier or a string without templates */
+  keyExpr?: Expression;
+  equals: CSTToken;
+  /** Tokens of the value, in source order */
+  value: CSTToken[];
+  /** Parsed value */
+  expr: Expression;
+  /** Comments written above the attribute or after it on the same line */
+  comments?: string[];
+}
+
+/**
+ * A block: `name "label"* { body }`.
+ */
+export interface CSTBlock {
+  type: "block";
+  name: CSTToken;
+  labels: CSTToken[];
+  open: CSTToken;
+  body: CSTBody;
+  close: CSTToken;
+  /** Comments written above the block or after its closing brace */
+  comments?: string[];
+}
+
+/**
+ * Attributes and blocks of a body, in source order.
+ */
+export interface CSTBody {
+  items: (CSTAttribute | CSTBlock)[];
+}
+
+/**
+ * Lossless concrete syntax tree of an HCL file: printing every token with
+ * its leading trivia, followed by the trailing trivia, reproduces the
+ * source exactly.
+ */
+export interface CSTDocument {
+  body: CSTBody;
+  /** Trivia after the last token */
+  trailing: Trivia[];
+}
+
+/**
+ * Splits the text between two tokens into trivia.
+ *
+ * @param text - Source text containing only whitespace and comments
+ * @returns Trivia in source order
+ */
+export function splitTrivia(text: string): Trivia[] {
+  const trivia: Trivia[] = [];
+  const re =
+    /(\r?\n)|(#[^\r\n]*|\/\/[^\r\n]*|\/\*[\s\S]*?\*\/)|([^\S\r\n]+|[^])/g;
+  for (const match of text.matchAll(re)) {
+    const kind = match[1] ? "newline" : match[2] ? "comment" : "whitespace";
+    const last = trivia[trivia.length - 1];
+    // Merge runs of whitespace, including a lone carriage return
+    if (kind === "whitespace" && last?.kind === "whitespace") {
+      last.text += match[0];
+    } else {
+      trivia.push({ kind, text: match[0] });
+    }
+  }
+  return trivia;
+}
+
+/**
+ * Pairs each token with the trivia before it.
+ *
+ * @param input - Source text the tokens were read from
+ * @param tokens - Tokens in source order
+ * @returns Tokens with leading trivia, and the trivia after the last token
+ */
+export function attachTrivia(
+  input: string,
+  tokens: Token[],
+): { tokens: CSTToken[]; trailing: Trivia[] } {
+  let end = 0;
+  const result = tokens.map((token) => {
+    const leading = splitTrivia(input.slice(end, token.loc.offset));
+    end = token.loc.offset + token.raw.length;
+    return { token, leading };
+  });
+  return { tokens: result, trailing: splitTrivia(input.slice(end)) };
+}
+
+/**
+ * Returns the first token of a body item, which carries the trivia before
+ * the item.
+ *
+ * @param item - Attribute or block
+ * @returns First key token of an attribute, or the type name of a block
+ */
+export function firstToken(item: CSTAttribute | CSTBlock): CSTToken {
+  return item.type === "attribute" ? item.key[0]! : item.name;
+}
+
+/**
+ * Returns the source text of an attribute key, without trivia.
+ *
+ * @param attr - Attribute
+ * @returns Key tokens joined by single spaces where the source had any
+ */
+export function keyText(attr: CSTAttribute): string {
+  return attr.key
+    .map((ct, i) => (i > 0 && ct.leading.length > 0 ? " " : "") + ct.token.raw)
+    .join("");
+}
+
+/**
+ * Lists the tokens of a body item in source order.
+ *
+ * @param item - Attribute or block
+ * @returns All tokens of the item, including those of nested blocks
+ */
+export function itemTokens(item: CSTAttribute | CSTBlock): CSTToken[] {
+  if (item.type === "attribute") {
+    return [...item.key, item.equals, ...item.value];
+  }
+  return [
+    item.name,
+    ...item.labels,
+    item.open,
+    ...item.body.items.flatMap(itemTokens),
+    item.close,
+  ];
+}
+
+/**
+ * Prints a concrete syntax tree back to source text.
+ *
+ * @param document - Tree produced by `parseCST`
+ * @returns The exact source the tree was parsed from
+ *
+ * @example
+ * ```typescript
+ * printCST(parseCST(source)) === source; // true
+ * ```
+ */
+export function printCST(document: CSTDocument): string {
+  const text = (trivia: Trivia[]) => trivia.map((t) => t.text).join("");
+  return (
+    document.body.items
+      .flatMap(itemTokens)
+      .map((t) => text(t.leading) + t.token.raw)
+      .join("") + text(document.trailing)
+  );
+}
+
+/**
+ * Derives the abstract syntax tree of a body, as consumed by the evaluator.
+ *
+ * @param body - Concrete body
+ * @returns Body of attributes and blocks
+ */
+export function toBody(body: CSTBody): Body {
+  return {
+    items: body.items.map((item): Attribute | Block =>
+      item.type === "attribute"
+        ? {
+            type: "attribute",
+            name: item.keyExpr
+              ? keyText(item)
+              : (item.key[0]!.token.value as string),
+            key: item.keyExpr,
+            expr: item.expr,
+            loc: item.key[0]!.token.loc,
+            comments: item.comments,
+          }
+        : {
+            type: "block",
+            name: item.name.token.value as string,
+            labels: item.labels.map((label) => label.token.value as string),
+            body: toBody(item.body),
+            loc: item.name.token.loc,
+            comments: item.comments,
+          },
+    ),
+  };
+}
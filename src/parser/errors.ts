@@ -0,0 +1,109 @@
+import type { SourceLocation } from "./lexer";
+
+/**
+ * Renders the source line containing `loc` with a caret under the offending column.
+ *
+ * @param source - The full source text the location points into
+ * @param loc - Location of the offending token or character
+ * @returns A gutter-prefixed line followed by a caret line
+ *
+ * @example
+ * ```typescript
+ * codeFrame('config { name = = "x" }', { file: "a.hcl", line: 1, column: 17, offset: 16 });
+ * // 1 | config { name = = "x" }
+ * //   |                 ^
+ * ```
+ */
+export function codeFrame(source: string, loc: SourceLocation): string {
+  const lines = source.split(/\r?\n/);
+  const text = lines[loc.line - 1] ?? "";
+  const gutter = String(loc.line);
+  const blank = " ".repeat(gutter.length);
+
+  // Preserve tabs so the caret lines up with the offending character
+  const padding = text.slice(0, loc.column - 1).replace(/[^\t]/g, " ");
+
+  return `${gutter} | ${text}\n${blank} | ${padding}^`;
+}
+
+/**
+ * Error thrown when HCL input cannot be tokenized or parsed.
+ *
+ * Carries the location of the offending token and a rendered code frame
+ * so callers can point users at the exact place in their file.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   parseHCL(source, { file: "main.hcl" });
+ * } catch (err) {
+ *   if (err instanceof HCLParseError) console.error(err.format());
+ * }
+ * ```
+ */
+export class HCLParseError extends Error {
+  readonly loc: SourceLocation;
+  readonly frame: string;
+
+  constructor(message: string, loc: SourceLocation, source: string) {
+    super(message);
+    this.name = "HCLParseError";
+    this.loc = loc;
+    this.frame = codeFrame(source, loc);
+  }
+
+  /**
+   * Formats the error as `file:line:column: message` followed by the code frame.
+   * @returns Human-readable error report
+   */
+  format(): string {
+    const { file, line, column } = this.loc;
+    return `${file}:${line}:${column}: ${this.message}\n${this.frame}`;
+  }
+}
+
+/**
+ * Error thrown when the parser or evaluator found several problems in one
+ * run. Its own message and location are those of the first problem, so it
+ * can be handled like a single {@link HCLParseError}.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   parseHCL("a = = 1\nb = = 2");
+ * } catch (err) {
+ *   if (err instanceof HCLErrorList) err.errors.length; // 2
+ * }
+ * ```
+ */
+export class HCLErrorList extends HCLParseError {
+  readonly errors: HCLParseError[];
+  // The errors may point into different files, so reuse the first one's
+  // frame rather than rendering it again
+  override readonly frame: string;
+
+  constructor(errors: HCLParseError[]) {
+    const [first] = errors;
+    super(first!.message, first!.loc, "");
+    this.name = "HCLErrorList";
+    this.errors = errors;
+    this.frame = first!.frame;
+  }
+
+  /**
+   * Combines collected errors into the error to throw.
+   * @param errors - Problems found, in source order (at least one)
+   * @returns The only error, or a list of all of them
+   */
+  static of(errors: HCLParseError[]): HCLParseError {
+    return errors.length === 1 ? errors[0]! : new HCLErrorList(errors);
+  }
+
+  /**
+   * Formats every error, separated by blank lines.
+   * @returns Human-readable error report
+   */
+  override format(): string {
+    return this.errors.map((err) => err.format()).join("\n\n");
+  }
+}
@@ -0,0 +1,887 @@
+import { dirname, resolve } from "node:path";
+import type {
+  Attribute,
+  Block,
+  Body,
+  Expression,
+  TemplatePart,
+  TraversalStep,
+} from "./ast";
+import { attachComments, detachComments } from "./comments";
+import { HCLErrorList, HCLParseError } from "./errors";
+import {
+  FunctionError,
+  callFunction,
+  functionServices,
+  hasFunction,
+} from "./functions";
+import type { SourceLocation } from "./lexer";
+import type { DuplicateBlockPolicy, HCLValue } from "./parser";
+import type { ServiceType } from "../directives/parser";
+import {
+  TypeConstraintError,
+  convertValue,
+  parseTypeConstraint,
+} from "./types";
+import { deepEqual, isObject, typeName } from "./values";
+
+/**
+ * Options controlling how a parsed document is evaluated.
+ */
+export interface EvaluateOptions {
+  /** Source text of each file by name, used to render code frames in errors */
+  sources: Map<string, string>;
+  /** Strategy for repeated blocks */
+  duplicateBlocks: DuplicateBlockPolicy;
+  /** Values of imported files, by the name they are imported as */
+  imports: Record<string, HCLValue>;
+  /**
+   * Directory that relative paths in function calls resolve against
+   * (defaults to the directory of the file containing the call)
+   */
+  baseDir?: string;
+  /** Values of `variable` blocks, overriding their defaults */
+  variables: Record<string, HCLValue>;
+  /** Service of the document, whose own functions can be called */
+  service?: ServiceType;
+}
+
+/**
+ * Names bound while evaluating, such as template `for` loop variables.
+ */
+type Scope = Map<string, HCLValue>;
+
+/**
+ * Evaluates a parsed HCL document into plain JavaScript values.
+ *
+ * References to `local.<name>` resolve against attributes of root `locals`
+ * blocks, and `var.<name>` against root `variable "<name>"` blocks: the
+ * value given in the options, or else the block's `default`, converted to
+ * the block's `type` when it declares one. Both are evaluated lazily, so
+ * they may reference each other in any order; cycles are reported as
+ * errors. `locals` and `variable` blocks are inputs, so they are left out
+ * of the result. The names in `options.imports` can be referenced like
+ * any other value, e.g. `common.labels`.
+ *
+ * The document may combine the items of several files. A key defined twice
+ * in one body, in the same or different files, is an error that names both
+ * locations.
+ *
+ * @param document - Root body produced by the parser
+ * @param options - Evaluation options
+ * @returns Plain object with all expressions resolved
+ * @throws HCLParseError on unknown references, type errors or duplicate
+ *   blocks; an {@link HCLErrorList} when there are several
+ * @throws Error if a value is given for a variable that is not declared
+ */
+export function evaluateDocument(
+  document: Body,
+  options: EvaluateOptions,
+): Record<string, HCLValue> {
+  const {
+    sources,
+    duplicateBlocks,
+    baseDir,
+    variables: inputs,
+    imports,
+    service,
+  } = options;
+
+  // Arrays created by collecting repeated blocks, as opposed to array literals
+  const blockLists = new WeakSet<HCLValue[]>();
+  // Where each block was declared, for duplicate-block error messages
+  const blockLocations = new WeakMap<object, SourceLocation>();
+
+  // Problems found so far; evaluation continues with the next item
+  const errors: HCLParseError[] = [];
+
+  const locals = new Map<string, Attribute | Block>();
+  const variables = new Map<string, Block>();
+  // Root `locals` and `variable` blocks, which are not part of the result
+  const declarations = new Set<Block>();
+  for (const item of document.items) {
+    if (item.type !== "block") continue;
+    if (item.name === "locals" && item.labels.length === 0) {
+      declarations.add(item);
+      // Unlabeled nested blocks define object-valued locals, like `x = { }`
+      for (const local of item.body.items) {
+        // Computed keys can't be referenced, so they don't define locals
+        if (
+          local.type === "attribute" ? !local.key : local.labels.length === 0
+        ) {
+          const first = locals.get(local.name);
+          if (first) {
+            report(
+              error(
+                `Duplicate local value '${local.name}'${firstDefined(first.loc, local.loc)}`,
+                local.loc,
+              ),
+            );
+          } else {
+            locals.set(local.name, local);
+          }
+        }
+      }
+    } else if (item.name === "variable" && item.labels.length === 1) {
+      declarations.add(item);
+      const name = item.labels[0]!;
+      const first = variables.get(name);
+      if (first) {
+        report(
+          error(
+            `Duplicate variable '${name}'${firstDefined(first.loc, item.loc)}`,
+            item.loc,
+          ),
+        );
+      } else {
+        variables.set(name, item);
+      }
+    }
+  }
+
+  for (const name of Object.keys(inputs)) {
+    if (!variables.has(name)) {
+      throw new Error(`Value given for undeclared variable '${name}'`);
+    }
+  }
+
+  // Resolved values of locals and variables, keyed by reference
+  const resolved = new Map<string, HCLValue>();
+  // References currently being resolved, for cycle detection
+  const resolving = new Set<string>();
+
+  /**
+   * Builds an evaluation error pointing at a source location.
+   * @param message - Description of the problem
+   * @param loc - Location of the offending expression
+   * @returns Error ready to be thrown
+   */
+  function error(message: string, loc: SourceLocation): HCLParseError {
+    return new HCLParseError(message, loc, sources.get(loc.file) ?? "");
+  }
+
+  /**
+   * Describes where a key was first defined, for duplicate-key errors.
+   * @param first - Location of the first definition
+   * @param loc - Location of the duplicate
+   * @returns ` (first defined at ...)`, naming the file when it differs
+   */
+  function firstDefined(first: SourceLocation, loc: SourceLocation): string {
+    const where =
+      first.file === loc.file
+        ? `line ${first.line}`
+        : `${first.file}:${first.line}`;
+    return ` (first defined at ${where})`;
+  }
+
+  /**
+   * Resolves a `local.<name>` or `var.<name>` reference, evaluating it once.
+   * @param namespace - Either `local` or `var`
+   * @param name - Name of the local value or variable
+   * @param loc - Location of the reference
+   * @returns The resolved value
+   */
+  function resolveReference(
+    namespace: "local" | "var",
+    name: string,
+    loc: SourceLocation,
+  ): HCLValue {
+    const ref = `${namespace}.${name}`;
+    if (resolved.has(ref)) return resolved.get(ref)!;
+    if (resolving.has(ref)) {
+      const chain = [...resolving].slice([...resolving].indexOf(ref));
+      throw error(`Cycle detected: ${[...chain, ref].join(" -> ")}`, loc);
+    }
+
+    let compute: () => HCLValue;
+    if (namespace === "local") {
+      const local = locals.get(name);
+      if (!local) throw error(`Unknown local value '${ref}'`, loc);
+      compute =
+        local.type === "attribute"
+          ? () => evaluate(local.expr, new Map())
+          : () => evaluateBody(local.body, new Map());
+    } else {
+      const block = variables.get(name);
+      if (!block) throw error(`Unknown variable '${ref}'`, loc);
+      compute = () => evaluateVariableBlock(name, block, loc);
+    }
+
+    resolving.add(ref);
+    try {
+      const value = compute();
+      resolved.set(ref, value);
+      return value;
+    } finally {
+      resolving.delete(ref);
+    }
+  }
+
+  /**
+   * Computes the value of a variable: the value given in the options, or
+   * else its `default`, converted to its `type` when it declares one.
+   * @param name - Variable name
+   * @param block - The `variable` block
+   * @param loc - Location of the reference, for a missing value
+   * @returns The variable's value
+   */
+  function evaluateVariableBlock(
+    name: string,
+    block: Block,
+    loc: SourceLocation,
+  ): HCLValue {
+    const attribute = (key: string) =>
+      block.body.items.find(
+        (item): item is Attribute =>
+          item.type === "attribute" && item.name === key,
+      );
+    const defaultAttr = attribute("default");
+    const typeAttr = attribute("type");
+
+    // Where a mismatch is reported: the default, or the declared type
+    // when the value came from outside the file
+    let value: HCLValue;
+    let at: SourceLocation;
+    if (Object.hasOwn(inputs, name)) {
+      value = inputs[name]!;
+      at = typeAttr?.expr.loc ?? block.loc;
+    } else if (defaultAttr) {
+      value = evaluate(defaultAttr.expr, new Map());
+      at = defaultAttr.expr.loc;
+    } else {
+      throw error(`Variable '${name}' has no default value`, loc);
+    }
+    if (!typeAttr) return value;
+
+    try {
+      return convertValue(value, parseTypeConstraint(typeAttr.expr));
+    } catch (err) {
+      if (!(err instanceof TypeConstraintError)) throw err;
+      if (err.loc) throw error(err.message, err.loc);
+      throw error(`Invalid value for variable '${name}': ${err.message}`, at);
+    }
+  }
+
+  /**
+   * Applies one traversal step (`.name` or `[key]`) to a value.
+   * @param value - Value being traversed
+   * @param step - Step to apply
+   * @param scope - Scope for evaluating index keys
+   * @returns The selected element
+   */
+  function applyStep(
+    value: HCLValue,
+    step: TraversalStep,
+    scope: Scope,
+  ): HCLValue {
+    const key =
+      step.kind === "attribute" ? step.name : evaluate(step.key, scope);
+
+    if (Array.isArray(value)) {
+      if (typeof key !== "number" || !Number.isInteger(key)) {
+        throw error(`List index must be a whole number`, step.loc);
+      }
+      if (key < 0 || key >= value.length) {
+        throw error(
+          `Index ${key} out of range for list of length ${value.length}`,
+          step.loc,
+        );
+      }
+      return value[key]!;
+    }
+
+    if (isObject(value)) {
+      if (typeof key !== "string") {
+        throw error(`Object key must be a string`, step.loc);
+      }
+      if (!Object.hasOwn(value, key)) {
+        throw error(`Object has no attribute '${key}'`, step.loc);
+      }
+      return value[key] as HCLValue;
+    }
+
+    throw error(`Cannot access '${key}' on ${typeName(value)}`, step.loc);
+  }
+
+  /**
+   * Looks up a bare variable name, such as a `for` loop variable or the
+   * name of an imported file.
+   * @param expr - Variable expression
+   * @param scope - Names bound by enclosing loops
+   * @returns The bound value
+   */
+  function evaluateVariable(
+    expr: Extract<Expression, { kind: "variable" }>,
+    scope: Scope,
+  ): HCLValue {
+    if (scope.has(expr.name)) return scope.get(expr.name)!;
+    if (Object.hasOwn(imports, expr.name)) return imports[expr.name]!;
+    if (expr.name === "local" || expr.name === "var") {
+      throw error(`'${expr.name}' must be followed by a name`, expr.loc);
+    }
+    throw error(`Unknown variable '${expr.name}'`, expr.loc);
+  }
+
+  /**
+   * Evaluates a reference such as `local.name`, `var.ports[0]` or `item.id`.
+   * @param expr - Traversal expression
+   * @param scope - Names bound by enclosing loops
+   * @returns The referenced value
+   */
+  function evaluateTraversal(
+    expr: Extract<Expression, { kind: "traversal" }>,
+    scope: Scope,
+  ): HCLValue {
+    const { target } = expr;
+    let steps = expr.steps;
+    let value: HCLValue;
+
+    if (
+      target.kind === "variable" &&
+      (target.name === "local" || target.name === "var") &&
+      !scope.has(target.name)
+    ) {
+      const [first, ...rest] = steps;
+      if (!first || first.kind !== "attribute") {
+        throw error(`'${target.name}' must be followed by a name`, target.loc);
+      }
+      value = resolveReference(target.name, first.name, first.loc);
+      steps = rest;
+    } else {
+      value = evaluate(target, scope);
+    }
+
+    for (const step of steps) value = applyStep(value, step, scope);
+    return value;
+  }
+
+  /**
+   * Evaluates a splat such as `list[*].name`, applying the trailing steps to
+   * every element. A null target yields an empty list and any other
+   * non-list value is treated as a single-element list.
+   * @param expr - Splat expression
+   * @param scope - Names bound by enclosing loops
+   * @returns List of selected values
+   */
+  function evaluateSplat(
+    expr: Extract<Expression, { kind: "splat" }>,
+    scope: Scope,
+  ): HCLValue[] {
+    const target = evaluate(expr.target, scope);
+    const items =
+      target === null ? [] : Array.isArray(target) ? target : [target];
+    return items.map((item) =>
+      expr.steps.reduce<HCLValue>(
+        (value, step) => applyStep(value, step, scope),
+        item,
+      ),
+    );
+  }
+
+  /**
+   * Checks that a value is a boolean.
+   * @param value - Value to check
+   * @param loc - Location of the expression that produced it
+   * @param what - Description used in the error message
+   * @returns The value, narrowed to boolean
+   */
+  function expectBoolean(
+    value: HCLValue,
+    loc: SourceLocation,
+    what: string,
+  ): boolean {
+    if (typeof value !== "boolean") {
+      throw error(`${what} must be a boolean, got ${typeName(value)}`, loc);
+    }
+    return value;
+  }
+
+  /**
+   * Converts an operand to a number. Strings holding a number are converted,
+   * matching HCL's automatic type conversion.
+   * @param value - Operand value
+   * @param loc - Location of the operand
+   * @returns Numeric value
+   */
+  function expectNumber(value: HCLValue, loc: SourceLocation): number {
+    if (typeof value === "number") return value;
+    if (typeof value === "string" && value.trim() !== "") {
+      const number = Number(value);
+      if (!Number.isNaN(number)) return number;
+    }
+    throw error(`Expected a number, got ${typeName(value)}`, loc);
+  }
+
+  /**
+   * Evaluates a binary operation. `&&` and `||` short-circuit.
+   * @param expr - Binary expression
+   * @param scope - Names bound by enclosing loops
+   * @returns Result of the operation
+   */
+  function evaluateBinary(
+    expr: Extract<Expression, { kind: "binary" }>,
+    scope: Scope,
+  ): HCLValue {
+    const { operator } = expr;
+    const left = evaluate(expr.left, scope);
+
+    if (operator === "&&" || operator === "||") {
+      const what = `Operand of '${operator}'`;
+      const lhs = expectBoolean(left, expr.left.loc, what);
+      if (operator === "&&" ? !lhs : lhs) return lhs;
+      return expectBoolean(evaluate(expr.right, scope), expr.right.loc, what);
+    }
+
+    const right = evaluate(expr.right, scope);
+    if (operator === "==") return deepEqual(left, right);
+    if (operator === "!=") return !deepEqual(left, right);
+
+    const a = expectNumber(left, expr.left.loc);
+    const b = expectNumber(right, expr.right.loc);
+    switch (operator) {
+      case "+":
+        return a + b;
+      case "-":
+        return a - b;
+      case "*":
+        return a * b;
+      case "/":
+      case "%":
+        if (b === 0) throw error("Division by zero", expr.right.loc);
+        return operator === "/" ? a / b : a % b;
+      case "<":
+        return a < b;
+      case ">":
+        return a > b;
+      case "<=":
+        return a <= b;
+      case ">=":
+        return a >= b;
+    }
+  }
+
+  /**
+   * Evaluates a function call. Errors from the function point at the
+   * offending argument when known, otherwise at the function name.
+   * @param expr - Call expression
+   * @param scope - Names bound by enclosing loops
+   * @returns Function result
+   */
+  function evaluateCall(
+    expr: Extract<Expression, { kind: "call" }>,
+    scope: Scope,
+  ): HCLValue {
+    if (!hasFunction(expr.name, service)) {
+      const [needed] = functionServices(expr.name);
+      const message = needed
+        ? `Function '${expr.name}' is only available with \`use ${needed}\``
+        : `Unknown function '${expr.name}'`;
+      throw error(message, expr.loc);
+    }
+
+    const args = expr.args.map((arg) => evaluate(arg, scope));
+    const argLocs = expr.args.map((arg) => arg.loc);
+
+    if (expr.expandFinal) {
+      const last = args.pop()!;
+      const loc = argLocs.pop()!;
+      if (!Array.isArray(last)) {
+        throw error(`Cannot expand ${typeName(last)} into arguments`, loc);
+      }
+      args.push(...last);
+      argLocs.push(...last.map(() => loc));
+    }
+
+    try {
+      return callFunction(expr.name, args, {
+        baseDir: baseDir ?? dirname(resolve(expr.loc.file)),
+        service,
+      });
+    } catch (err) {
+      if (!(err instanceof FunctionError)) throw err;
+      const loc =
+        err.argument !== undefined
+          ? (argLocs[err.argument] ?? expr.loc)
+          : expr.loc;
+      throw error(`Error in function call '${expr.name}': ${err.message}`, loc);
+    }
+  }
+
+  /**
+   * Lists the entries of a collection for iteration: index and element for
+   * lists, key and value (in insertion order) for objects.
+   * @param collection - Value being iterated
+   * @param loc - Location of the collection expression
+   * @returns Key-value pairs
+   */
+  function entriesOf(
+    collection: HCLValue,
+    loc: SourceLocation,
+  ): [HCLValue, HCLValue][] {
+    if (Array.isArray(collection)) {
+      return collection.map((item, index) => [index, item]);
+    }
+    if (isObject(collection)) {
+      return Object.entries(collection) as [string, HCLValue][];
+    }
+    throw error(`Cannot iterate over ${typeName(collection)}`, loc);
+  }
+
+  /**
+   * Evaluates a `[for ...]` or `{for ...}` expression.
+   * @param expr - For expression
+   * @param scope - Names bound by enclosing loops
+   * @returns List or object of produced values
+   */
+  function evaluateFor(
+    expr: Extract<Expression, { kind: "for" }>,
+    scope: Scope,
+  ): HCLValue {
+    const list: HCLValue[] = [];
+    // Without a prototype, keys such as `toString` are ordinary keys
+    const object: Record<string, HCLValue> = Object.create(null);
+
+    for (const [key, item] of entriesOf(
+      evaluate(expr.collection, scope),
+      expr.collection.loc,
+    )) {
+      const inner = new Map(scope);
+      if (expr.keyVar) inner.set(expr.keyVar, key);
+      inner.set(expr.valueVar, item);
+
+      if (expr.condition) {
+        const keep = evaluate(expr.condition, inner);
+        if (!expectBoolean(keep, expr.condition.loc, "Condition")) continue;
+      }
+
+      if (!expr.key) {
+        list.push(evaluate(expr.value, inner));
+        continue;
+      }
+
+      const name = stringify(evaluate(expr.key, inner), expr.key.loc);
+      const value = evaluate(expr.value, inner);
+      if (expr.grouping) {
+        ((object[name] ??= []) as HCLValue[]).push(value);
+      } else if (Object.hasOwn(object, name)) {
+        throw error(
+          `Duplicate key '${name}' in for expression; use '...' to group values`,
+          expr.key.loc,
+        );
+      } else {
+        object[name] = value;
+      }
+    }
+
+    return expr.key ? object : list;
+  }
+
+  /**
+   * Converts an interpolated value to its string form.
+   * @param value - Value produced by an interpolation
+   * @param loc - Location of the interpolation
+   * @returns String representation of the value
+   */
+  function stringify(value: HCLValue, loc: SourceLocation): string {
+    if (typeof value === "string") return value;
+    if (typeof value === "number" || typeof value === "boolean") {
+      return String(value);
+    }
+    throw error(`Cannot interpolate a ${typeName(value)} value`, loc);
+  }
+
+  /**
+   * Renders template parts to a string.
+   * @param parts - Template parts
+   * @param scope - Names bound by enclosing loops
+   * @returns Rendered text
+   */
+  function render(parts: TemplatePart[], scope: Scope): string {
+    let out = "";
+    for (const part of parts) {
+      switch (part.kind) {
+        case "text":
+          out += part.value;
+          break;
+        case "interpolation":
+          out += stringify(evaluate(part.expr, scope), part.expr.loc);
+          break;
+        case "if": {
+          const condition = evaluate(part.condition, scope);
+          const chosen = expectBoolean(
+            condition,
+            part.condition.loc,
+            "Condition",
+          );
+          out += render(chosen ? part.then : part.else, scope);
+          break;
+        }
+        case "for": {
+          const collection = evaluate(part.collection, scope);
+          for (const [key, item] of entriesOf(
+            collection,
+            part.collection.loc,
+          )) {
+            const inner = new Map(scope);
+            if (part.keyVar) inner.set(part.keyVar, key);
+            inner.set(part.valueVar, item);
+            out += render(part.body, inner);
+          }
+          break;
+        }
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Evaluates an expression to a plain value.
+   * @param expr - Expression to evaluate
+   * @param scope - Names bound by enclosing loops
+   * @returns The resulting value
+   */
+  function evaluate(expr: Expression, scope: Scope): HCLValue {
+    switch (expr.kind) {
+      case "literal":
+        return expr.value;
+      case "template": {
+        // A lone interpolation keeps the type of its value
+        const [only] = expr.parts;
+        if (expr.parts.length === 1 && only?.kind === "interpolation") {
+          return evaluate(only.expr, scope);
+        }
+        return render(expr.parts, scope);
+      }
+      case "tuple":
+        return expr.items.map((item) => evaluate(item, scope));
+      case "object":
+        return evaluateBody(expr.body, scope);
+      case "variable":
+        return evaluateVariable(expr, scope);
+      case "call":
+        return evaluateCall(expr, scope);
+      case "traversal":
+        return evaluateTraversal(expr, scope);
+      case "splat":
+        return evaluateSplat(expr, scope);
+      case "unary": {
+        const operand = evaluate(expr.operand, scope);
+        return expr.operator === "!"
+          ? !expectBoolean(operand, expr.operand.loc, "Operand of '!'")
+          : -expectNumber(operand, expr.operand.loc);
+      }
+      case "binary":
+        return evaluateBinary(expr, scope);
+      case "conditional": {
+        const condition = evaluate(expr.condition, scope);
+        return expectBoolean(condition, expr.condition.loc, "Condition")
+          ? evaluate(expr.then, scope)
+          : evaluate(expr.else, scope);
+      }
+      case "for":
+        return evaluateFor(expr, scope);
+    }
+  }
+
+  /**
+   * Adds an evaluated block to a body, nesting it under its labels.
+   *
+   * When a block with the same type and labels already exists, the
+   * configured {@link DuplicateBlockPolicy} decides what happens.
+   *
+   * @param body - Body receiving the block
+   * @param block - Block being added
+   * @param value - Evaluated block body
+   * @throws HCLParseError on duplicates under the `error` policy, or when a
+   *   label path runs through a non-object value
+   */
+  function addBlock(
+    body: Record<string, HCLValue>,
+    block: Block,
+    value: Record<string, HCLValue>,
+  ): void {
+    const path = [block.name, ...block.labels];
+    const name = path.join(".");
+    blockLocations.set(value, block.loc);
+
+    // Nest structure based on labels
+    let ref = body;
+    for (const segment of path.slice(0, -1)) {
+      const existing = Object.hasOwn(ref, segment) ? ref[segment] : undefined;
+      if (existing === undefined) {
+        ref[segment] = Object.create(null);
+      } else if (!isObject(existing)) {
+        throw error(
+          `Block '${name}' conflicts with non-object value '${segment}'`,
+          block.loc,
+        );
+      }
+      ref = ref[segment] as Record<string, HCLValue>;
+    }
+
+    const slot = path[path.length - 1]!;
+    const existing = Object.hasOwn(ref, slot) ? ref[slot] : undefined;
+    const comments = block.comments ?? [];
+    if (existing === undefined) {
+      ref[slot] = value;
+      attachComments(ref, slot, comments);
+      return;
+    }
+
+    switch (duplicateBlocks) {
+      case "error": {
+        const first = isObject(existing)
+          ? blockLocations.get(existing)
+          : undefined;
+        const where = first ? firstDefined(first, block.loc) : "";
+        throw error(`Duplicate block '${name}'${where}`, block.loc);
+      }
+      case "last-wins":
+        ref[slot] = value;
+        detachComments(ref, slot);
+        attachComments(ref, slot, comments);
+        break;
+      case "list":
+        if (Array.isArray(existing) && blockLists.has(existing)) {
+          existing.push(value);
+          attachComments(existing, existing.length - 1, comments);
+        } else {
+          const list = [existing, value];
+          blockLists.add(list);
+          ref[slot] = list;
+          // Each block's comments now describe its list element
+          attachComments(list, 0, detachComments(ref, slot) ?? []);
+          attachComments(list, 1, comments);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Records an evaluation error, unless the same problem was already
+   * reported through another reference to the same local value.
+   * @param err - Error raised while evaluating an item
+   */
+  function report(err: HCLParseError): void {
+    const seen = errors.some(
+      (e) =>
+        e.message === err.message &&
+        e.loc.file === err.loc.file &&
+        e.loc.offset === err.loc.offset,
+    );
+    if (!seen) errors.push(err);
+  }
+
+  /**
+   * Evaluates a computed object key. Numbers and booleans are converted to
+   * strings, as in HCL.
+   * @param expr - Key expression
+   * @param scope - Names bound by enclosing loops
+   * @returns The key
+   */
+  function evaluateKey(expr: Expression, scope: Scope): string {
+    const value = evaluate(expr, scope);
+    if (typeof value === "string") return value;
+    if (typeof value === "number" || typeof value === "boolean") {
+      return String(value);
+    }
+    throw error(
+      `Object key must be a string, got ${typeName(value)}`,
+      expr.loc,
+    );
+  }
+
+  /**
+   * Evaluates a body of attributes and blocks into an object. Items that
+   * fail are reported and left out, so that one run finds every problem.
+   * @param body - Body to evaluate
+   * @param scope - Names bound by enclosing loops
+   * @returns Object with evaluated attributes and nested blocks
+   */
+  function evaluateBody(body: Body, scope: Scope): Record<string, HCLValue> {
+    // Without a prototype, names such as `constructor` or `__proto__` are
+    // ordinary keys
+    const result: Record<string, HCLValue> = Object.create(null);
+    // Where each key was first set, by an attribute or a block, to report
+    // keys that are set twice. Only blocks may repeat, following the
+    // duplicate block policy
+    const keyLocations = new Map<
+      string,
+      { loc: SourceLocation; block: boolean }
+    >();
+    for (const item of body.items) {
+      try {
+        if (item.type === "attribute") {
+          const name = item.key ? evaluateKey(item.key, scope) : item.name;
+          const first = keyLocations.get(name);
+          if (first) {
+            throw error(
+              `Duplicate attribute '${name}'${firstDefined(first.loc, item.loc)}`,
+              item.loc,
+            );
+          }
+          keyLocations.set(name, { loc: item.loc, block: false });
+          result[name] = evaluate(item.expr, scope);
+          attachComments(result, name, item.comments ?? []);
+        } else {
+          const first = keyLocations.get(item.name);
+          if (first && !first.block) {
+            throw error(
+              `Duplicate block '${item.name}'${firstDefined(first.loc, item.loc)}`,
+              item.loc,
+            );
+          }
+          if (!first)
+            keyLocations.set(item.name, { loc: item.loc, block: true });
+          addBlock(result, item, evaluateBody(item.body, scope));
+        }
+      } catch (err) {
+        if (!(err instanceof HCLParseError)) throw err;
+        report(err);
+      }
+    }
+    return result;
+  }
+
+  // Resolve every local and every variable that has a value up front, so
+  // that problems are found even in those nothing references
+  for (const [name, local] of locals) {
+    try {
+      resolveReference("local", name, local.loc);
+    } catch (err) {
+      if (!(err instanceof HCLParseError)) throw err;
+      report(err);
+    }
+  }
+  for (const [name, block] of variables) {
+    const hasDefault = block.body.items.some(
+      (item) => item.type === "attribute" && item.name === "default",
+    );
+    if (!hasDefault && !Object.hasOwn(inputs, name)) continue;
+    try {
+      resolveReference("var", name, block.loc);
+    } catch (err) {
+      if (!(err instanceof HCLParseError)) throw err;
+      report(err);
+    }
+  }
+
+  const result = evaluateBody(
+    {
+      items: document.items.filter(
+        (item) => item.type !== "block" || !declarations.has(item),
+      ),
+    },
+    new Map(),
+  );
+  if (errors.length > 0) {
+    const files = [...sources.keys()];
+    errors.sort(
+      (a, b) =>
+        files.indexOf(a.loc.file) - files.indexOf(b.loc.file) ||
+        a.loc.offset - b.loc.offset,
+    );
+    throw HCLErrorList.of(errors);
+  }
+  return result;
+}
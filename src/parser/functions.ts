@@ -0,0 +1,745 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { basename, dirname, resolve } from "node:path";
+import yaml from "js-yaml";
+import type { HCLValue } from "./parser";
+import type { ServiceType } from "../directives/parser";
+import { deepEqual, isObject, typeName } from "./values";
+
+/**
+ * Argument types a function can declare. Arguments are converted to the
+ * declared type where HCL allows it (numbers and booleans to strings,
+ * numeric strings to numbers) and rejected otherwise.
+ */
+export type ParamType =
+  | "string"
+  | "number"
+  | "bool"
+  | "list"
+  | "object"
+  | "any";
+
+/**
+ * Information about the conversion a function is called from.
+ */
+export interface FunctionContext {
+  /** Directory that relative paths (e.g. in `file()`) resolve against */
+  baseDir: string;
+  /** Service named by the document's `use` directive */
+  service?: ServiceType;
+}
+
+/**
+ * A built-in function callable from HCL expressions.
+ */
+export interface HCLFunction {
+  /** Types of the positional parameters */
+  params: ParamType[];
+  /** Number of leading parameters that are required (defaults to all) */
+  required?: number;
+  /** Type of any further arguments, for variadic functions */
+  variadic?: ParamType;
+  /**
+   * Service whose documents can call the function. Such functions are only
+   * available with `use <service>`, where they take precedence over a
+   * general function of the same name
+   */
+  service?: Exclude<ServiceType, null>;
+  /** Computes the result from converted arguments */
+  call(args: HCLValue[], context: FunctionContext): HCLValue;
+}
+
+/**
+ * Error raised by a function call. `argument` is the index of the offending
+ * argument, when there is one, so callers can point at it.
+ */
+export class FunctionError extends Error {
+  readonly argument?: number;
+
+  constructor(message: string, argument?: number) {
+    super(message);
+    this.name = "FunctionError";
+    this.argument = argument;
+  }
+}
+
+/**
+ * Registered functions by name.
+ */
+const registry = new Map<string, HCLFunction>();
+
+/**
+ * Registered functions of each service, by service and then name.
+ */
+const serviceRegistry = new Map<string, Map<string, HCLFunction>>();
+
+/**
+ * Finds the function a name refers to in a document.
+ * @param name - Function name
+ * @param service - Service of the document
+ * @returns The service's function of that name, else the general one
+ */
+function lookup(
+  name: string,
+  service: ServiceType | undefined,
+): HCLFunction | undefined {
+  return (
+    (service ? serviceRegistry.get(service)?.get(name) : undefined) ??
+    registry.get(name)
+  );
+}
+
+/**
+ * Adds a function to the registry, making it callable from HCL, or only
+ * from documents of `fn.service` when that is set.
+ *
+ * @param name - Name used in HCL, e.g. `upper`
+ * @param fn - Function definition
+ * @throws Error if a function with that name is already registered (for
+ *   the same service)
+ *
+ * @example
+ * ```typescript
+ * registerFunction("shout", {
+ *   params: ["string"],
+ *   call: ([s]) => `${(s as string).toUpperCase()}!`,
+ * });
+ * ```
+ */
+export function registerFunction(name: string, fn: HCLFunction): void {
+  let functions = registry;
+  if (fn.service) {
+    functions = serviceRegistry.get(fn.service) ?? new Map();
+    serviceRegistry.set(fn.service, functions);
+  }
+  if (functions.has(name)) {
+    const scope = fn.service ? ` for ${fn.service}` : "";
+    throw new Error(`Function '${name}' is already registered${scope}`);
+  }
+  functions.set(name, fn);
+}
+
+/**
+ * Checks whether a function is registered.
+ * @param name - Function name
+ * @param service - Service of the calling document, whose functions are
+ *   available too
+ * @returns true if the function can be called
+ */
+export function hasFunction(name: string, service?: ServiceType): boolean {
+  return lookup(name, service) !== undefined;
+}
+
+/**
+ * Lists the services that define a function of their own under a name.
+ * @param name - Function name
+ * @returns Service names, e.g. `["cloudformation"]` for `ref`
+ */
+export function functionServices(name: string): string[] {
+  return [...serviceRegistry]
+    .filter(([, functions]) => functions.has(name))
+    .map(([service]) => service);
+}
+
+/**
+ * Lists the names of all registered functions.
+ * @param service - Service whose functions are included too
+ * @returns Function names in alphabetical order
+ */
+export function functionNames(service?: ServiceType): string[] {
+  const own = service ? (serviceRegistry.get(service)?.keys() ?? []) : [];
+  return [...new Set([...registry.keys(), ...own])].sort();
+}
+
+/**
+ * Converts an argument to a parameter's declared type.
+ * @param value - Argument value
+ * @param type - Declared parameter type
+ * @param index - Argument position, for error messages
+ * @returns Converted value
+ */
+function convert(value: HCLValue, type: ParamType, index: number): HCLValue {
+  switch (type) {
+    case "any":
+      return value;
+    case "string":
+      if (typeof value === "string") return value;
+      if (typeof value === "number" || typeof value === "boolean") {
+        return String(value);
+      }
+      break;
+    case "number":
+      if (typeof value === "number") return value;
+      if (typeof value === "string" && value.trim() !== "") {
+        const number = Number(value);
+        if (!Number.isNaN(number)) return number;
+      }
+      break;
+    case "bool":
+      if (typeof value === "boolean") return value;
+      if (value === "true" || value === "false") return value === "true";
+      break;
+    case "list":
+      if (Array.isArray(value)) return value;
+      break;
+    case "object":
+      if (isObject(value)) return value;
+      break;
+  }
+  throw new FunctionError(
+    `Invalid argument ${index + 1}: expected ${type}, got ${typeName(value)}`,
+    index,
+  );
+}
+
+/**
+ * Calls a registered function, checking the argument count and converting
+ * arguments to the declared parameter types.
+ *
+ * @param name - Function name
+ * @param args - Evaluated arguments
+ * @param context - Conversion context
+ * @returns Function result
+ * @throws FunctionError for unknown functions, bad arguments, or failures
+ */
+export function callFunction(
+  name: string,
+  args: HCLValue[],
+  context: FunctionContext,
+): HCLValue {
+  const fn = lookup(name, context.service);
+  if (!fn) throw new FunctionError(`Unknown function '${name}'`);
+
+  const required = fn.required ?? fn.params.length;
+  const max = fn.variadic ? Infinity : fn.params.length;
+  if (args.length < required || args.length > max) {
+    const expected =
+      max === Infinity
+        ? `at least ${required}`
+        : required === max
+          ? `${required}`
+          : `${required} to ${max}`;
+    const plural = expected === "1" ? "" : "s";
+    throw new FunctionError(
+      `Function '${name}' expects ${expected} argument${plural}, got ${args.length}`,
+    );
+  }
+
+  const converted = args.map((arg, i) =>
+    convert(arg, fn.params[i] ?? fn.variadic!, i),
+  );
+  try {
+    return fn.call(converted, context);
+  } catch (err) {
+    if (err instanceof FunctionError) throw err;
+    throw new FunctionError(err instanceof Error ? err.message : String(err));
+  }
+}
+
+/**
+ * Formats a value with a `format()` verb.
+ * @param verb - One of `s`, `d`, `f`, `v` or `q`
+ * @param value - Value to format
+ * @param precision - Digits after the decimal point for `%f`
+ * @param index - Argument position, for error messages
+ * @returns Formatted text
+ */
+function formatVerb(
+  verb: string,
+  value: HCLValue,
+  precision: string | undefined,
+  index: number,
+): string {
+  switch (verb) {
+    case "d":
+      return String(Math.trunc(convert(value, "number", index) as number));
+    case "f":
+      return (convert(value, "number", index) as number).toFixed(
+        precision === undefined ? 6 : Number(precision),
+      );
+    case "q":
+      return JSON.stringify(convert(value, "string", index));
+    case "v":
+      return typeof value === "string" ? value : JSON.stringify(value);
+    default:
+      return convert(value, "string", index) as string;
+  }
+}
+
+/**
+ * Reads a file relative to the input's directory.
+ * @param context - Conversion context
+ * @param path - Relative or absolute path
+ * @returns File contents
+ */
+function readFile(context: FunctionContext, path: string): Buffer {
+  const full = resolve(context.baseDir, path);
+  if (!existsSync(full) || !statSync(full).isFile()) {
+    throw new FunctionError(`No such file '${path}'`, 0);
+  }
+  return readFileSync(full);
+}
+
+/**
+ * Flattens nested lists into a single list.
+ * @param list - List that may contain lists
+ * @returns List without nested lists
+ */
+function flattenList(list: HCLValue[]): HCLValue[] {
+  return list.flatMap((item) =>
+    Array.isArray(item) ? flattenList(item) : [item],
+  );
+}
+
+/**
+ * Creates a hashing function returning a hex or base64 digest.
+ * @param algorithm - Node hash algorithm name
+ * @param encoding - Digest encoding
+ * @returns Function definition
+ */
+function hashFunction(
+  algorithm: string,
+  encoding: "hex" | "base64" = "hex",
+): HCLFunction {
+  return {
+    params: ["string"],
+    call: ([s]) =>
+      createHash(algorithm)
+        .update(s as string)
+        .digest(encoding),
+  };
+}
+
+/**
+ * Most elements `range` produces, so that a typo can't exhaust memory.
+ */
+const MAX_RANGE = 1024;
+
+// String functions
+registerFunction("upper", {
+  params: ["string"],
+  call: ([s]) => (s as string).toUpperCase(),
+});
+registerFunction("lower", {
+  params: ["string"],
+  call: ([s]) => (s as string).toLowerCase(),
+});
+registerFunction("title", {
+  params: ["string"],
+  call: ([s]) => (s as string).replace(/\b\w/g, (char) => char.toUpperCase()),
+});
+registerFunction("trimspace", {
+  params: ["string"],
+  call: ([s]) => (s as string).trim(),
+});
+registerFunction("trimprefix", {
+  params: ["string", "string"],
+  call: ([s, prefix]) => {
+    const str = s as string;
+    return str.startsWith(prefix as string)
+      ? str.slice((prefix as string).length)
+      : str;
+  },
+});
+registerFunction("trimsuffix", {
+  params: ["string", "string"],
+  call: ([s, suffix]) => {
+    const str = s as string;
+    return suffix && str.endsWith(suffix as string)
+      ? str.slice(0, -(suffix as string).length)
+      : str;
+  },
+});
+registerFunction("replace", {
+  params: ["string", "string", "string"],
+  call: ([s, search, replacement]) =>
+    (s as string).split(search as string).join(replacement as string),
+});
+registerFunction("split", {
+  params: ["string", "string"],
+  call: ([separator, s]) => (s as string).split(separator as string),
+});
+registerFunction("join", {
+  params: ["string", "list"],
+  call: ([separator, list]) =>
+    (list as HCLValue[])
+      .map((item, i) => {
+        if (typeof item === "object" && item !== null) {
+          throw new FunctionError(
+            `Element ${i} of list is a ${typeName(item)}, not a string`,
+            1,
+          );
+        }
+        return String(item);
+      })
+      .join(separator as string),
+});
+registerFunction("substr", {
+  params: ["string", "number", "number"],
+  call: ([s, offset, length]) => {
+    const chars = [...(s as string)];
+    const start =
+      (offset as number) < 0
+        ? chars.length + (offset as number)
+        : (offset as number);
+    const end =
+      (length as number) < 0 ? chars.length : start + (length as number);
+    return chars.slice(start, end).join("");
+  },
+});
+registerFunction("startswith", {
+  params: ["string", "string"],
+  call: ([s, prefix]) => (s as string).startsWith(prefix as string),
+});
+registerFunction("endswith", {
+  params: ["string", "string"],
+  call: ([s, suffix]) => (s as string).endsWith(suffix as string),
+});
+registerFunction("format", {
+  params: ["string"],
+  variadic: "any",
+  call: ([spec, ...values]) => {
+    let next = 0;
+    return (spec as string).replace(
+      /%(?:\.(\d+))?([sdfvq%])/g,
+      (_, precision: string | undefined, verb: string) => {
+        if (verb === "%") return "%";
+        if (next >= values.length) {
+          throw new FunctionError(`Not enough arguments for format string`);
+        }
+        next++;
+        return formatVerb(verb, values[next - 1]!, precision, next);
+      },
+    );
+  },
+});
+
+// Numeric functions
+registerFunction("min", {
+  params: ["number"],
+  variadic: "number",
+  call: (args) => Math.min(...(args as number[])),
+});
+registerFunction("max", {
+  params: ["number"],
+  variadic: "number",
+  call: (args) => Math.max(...(args as number[])),
+});
+registerFunction("abs", {
+  params: ["number"],
+  call: ([n]) => Math.abs(n as number),
+});
+registerFunction("ceil", {
+  params: ["number"],
+  call: ([n]) => Math.ceil(n as number),
+});
+registerFunction("floor", {
+  params: ["number"],
+  call: ([n]) => Math.floor(n as number),
+});
+
+// Collection functions
+registerFunction("length", {
+  params: ["any"],
+  call: ([value]) => {
+    if (typeof value === "string") return [...value].length;
+    if (Array.isArray(value)) return value.length;
+    if (isObject(value)) return Object.keys(value).length;
+    throw new FunctionError(`Cannot take the length of ${typeName(value!)}`, 0);
+  },
+});
+registerFunction("concat", {
+  params: ["list"],
+  variadic: "list",
+  call: (lists) => (lists as HCLValue[][]).flat(),
+});
+registerFunction("contains", {
+  params: ["list", "any"],
+  call: ([list, value]) =>
+    (list as HCLValue[]).some((item) => deepEqual(item, value!)),
+});
+registerFunction("distinct", {
+  params: ["list"],
+  call: ([list]) =>
+    (list as HCLValue[]).filter(
+      (item, i, items) =>
+        items.findIndex((other) => deepEqual(other, item)) === i,
+    ),
+});
+registerFunction("flatten", {
+  params: ["list"],
+  call: ([list]) => flattenList(list as HCLValue[]),
+});
+registerFunction("compact", {
+  params: ["list"],
+  call: ([list]) =>
+    (list as HCLValue[]).filter((item) => item !== null && item !== ""),
+});
+registerFunction("coalesce", {
+  params: ["any"],
+  variadic: "any",
+  call: (args) => {
+    const found = args.find((arg) => arg !== null && arg !== "");
+    if (found === undefined) {
+      throw new FunctionError("No non-null, non-empty arguments");
+    }
+    return found;
+  },
+});
+registerFunction("element", {
+  params: ["list", "number"],
+  call: ([list, index]) => {
+    const items = list as HCLValue[];
+    if (items.length === 0) throw new FunctionError("List is empty", 0);
+    if ((index as number) < 0) {
+      throw new FunctionError("Index must not be negative", 1);
+    }
+    return items[Math.trunc(index as number) % items.length]!;
+  },
+});
+registerFunction("slice", {
+  params: ["list", "number", "number"],
+  call: ([list, start, end]) => {
+    const items = list as HCLValue[];
+    if (
+      (start as number) < 0 ||
+      (start as number) > (end as number) ||
+      (end as number) > items.length
+    ) {
+      throw new FunctionError(
+        `Invalid range ${start}..${end} for list of length ${items.length}`,
+      );
+    }
+    return items.slice(start as number, end as number);
+  },
+});
+registerFunction("reverse", {
+  params: ["list"],
+  call: ([list]) => [...(list as HCLValue[])].reverse(),
+});
+registerFunction("sort", {
+  params: ["list"],
+  call: ([list]) =>
+    (list as HCLValue[]).map((item) => convert(item, "string", 0)).sort(),
+});
+registerFunction("range", {
+  params: ["number", "number", "number"],
+  required: 1,
+  call: (args) => {
+    const [start, end, step = 1] = (
+      args.length === 1 ? [0, args[0]] : args
+    ) as number[];
+    if (step === 0) throw new FunctionError("Step must not be zero", 2);
+    const result: number[] = [];
+    for (let n = start!; step > 0 ? n < end! : n > end!; n += step) {
+      if (result.length === MAX_RANGE) {
+        throw new FunctionError(
+          `Range must not have more than ${MAX_RANGE} elements`,
+        );
+      }
+      result.push(n);
+    }
+    return result;
+  },
+});
+registerFunction("keys", {
+  params: ["object"],
+  call: ([object]) => Object.keys(object as Record<string, HCLValue>),
+});
+registerFunction("values", {
+  params: ["object"],
+  call: ([object]) =>
+    Object.values(object as Record<string, HCLValue>) as HCLValue[],
+});
+registerFunction("lookup", {
+  params: ["object", "string", "any"],
+  required: 2,
+  call: ([object, key, fallback]) => {
+    const map = object as Record<string, HCLValue>;
+    if (Object.hasOwn(map, key as string)) return map[key as string]!;
+    if (fallback !== undefined) return fallback;
+    throw new FunctionError(`Object has no attribute '${key}'`, 1);
+  },
+});
+registerFunction("merge", {
+  params: [],
+  variadic: "any",
+  call: (args) => {
+    const result: Record<string, HCLValue> = {};
+    args.forEach((arg, i) => {
+      if (arg === null) return;
+      Object.assign(result, convert(arg, "object", i));
+    });
+    return result;
+  },
+});
+registerFunction("zipmap", {
+  params: ["list", "list"],
+  call: ([keys, values]) => {
+    const names = keys as HCLValue[];
+    const items = values as HCLValue[];
+    if (names.length !== items.length) {
+      throw new FunctionError(
+        `Lists have different lengths (${names.length} and ${items.length})`,
+      );
+    }
+    return Object.fromEntries(
+      names.map((name, i) => [convert(name, "string", 0), items[i]!]),
+    );
+  },
+});
+
+// Encoding functions
+registerFunction("jsonencode", {
+  params: ["any"],
+  call: ([value]) => JSON.stringify(value),
+});
+registerFunction("jsondecode", {
+  params: ["string"],
+  call: ([s]) => JSON.parse(s as string) as HCLValue,
+});
+registerFunction("yamlencode", {
+  params: ["any"],
+  call: ([value]) =>
+    yaml.dump(value, { noRefs: true, sortKeys: false, lineWidth: -1 }),
+});
+registerFunction("yamldecode", {
+  params: ["string"],
+  call: ([s]) => (yaml.load(s as string) ?? null) as HCLValue,
+});
+registerFunction("base64encode", {
+  params: ["string"],
+  call: ([s]) => Buffer.from(s as string, "utf8").toString("base64"),
+});
+registerFunction("base64decode", {
+  params: ["string"],
+  call: ([s]) => Buffer.from(s as string, "base64").toString("utf8"),
+});
+registerFunction("urlencode", {
+  params: ["string"],
+  call: ([s]) => encodeURIComponent(s as string),
+});
+
+// Filesystem functions, relative to the input file's directory
+registerFunction("file", {
+  params: ["string"],
+  call: ([path], context) => readFile(context, path as string).toString("utf8"),
+});
+registerFunction("filebase64", {
+  params: ["string"],
+  call: ([path], context) =>
+    readFile(context, path as string).toString("base64"),
+});
+registerFunction("fileexists", {
+  params: ["string"],
+  call: ([path], context) => {
+    const full = resolve(context.baseDir, path as string);
+    return existsSync(full) && statSync(full).isFile();
+  },
+});
+registerFunction("basename", {
+  params: ["string"],
+  call: ([path]) => basename(path as string),
+});
+registerFunction("dirname", {
+  params: ["string"],
+  call: ([path]) => dirname(path as string),
+});
+
+// Hashing functions
+registerFunction("md5", hashFunction("md5"));
+registerFunction("sha1", hashFunction("sha1"));
+registerFunction("sha256", hashFunction("sha256"));
+registerFunction("sha512", hashFunction("sha512"));
+registerFunction("base64sha256", hashFunction("sha256", "base64"));
+registerFunction("base64sha512", hashFunction("sha512", "base64"));
+
+// CloudFormation intrinsic functions (`use cloudformation`). They evaluate
+// to the long-form map, such as `{ "Fn::GetAtt": [...] }`, for
+// CloudFormation to resolve when the stack is deployed
+
+/**
+ * Builds a CloudFormation intrinsic function.
+ * @param key - Long-form key, e.g. `Fn::GetAtt`
+ * @param params - Types of the positional parameters
+ * @param value - Builds the value under the key from the arguments
+ *   (defaults to the argument list)
+ * @returns Function definition
+ */
+function intrinsic(
+  key: string,
+  params: ParamType[],
+  value: (args: HCLValue[]) => HCLValue = (args) => args,
+): HCLFunction {
+  return {
+    params,
+    service: "cloudformation",
+    call: (args) => ({ [key]: value(args) }),
+  };
+}
+
+registerFunction(
+  "ref",
+  intrinsic("Ref", ["string"], ([name]) => name!),
+);
+registerFunction("get_att", intrinsic("Fn::GetAtt", ["string", "string"]));
+registerFunction("sub", {
+  ...intrinsic("Fn::Sub", ["string", "object"], (args) =>
+    args.length === 1 ? args[0]! : args,
+  ),
+  required: 1,
+});
+registerFunction("if", intrinsic("Fn::If", ["string", "any", "any"]));
+registerFunction("select", intrinsic("Fn::Select", ["any", "any"]));
+registerFunction("get_azs", {
+  ...intrinsic("Fn::GetAZs", ["any"], ([region]) => region ?? ""),
+  required: 0,
+});
+registerFunction(
+  "import_value",
+  intrinsic("Fn::ImportValue", ["any"], ([name]) => name!),
+);
+registerFunction(
+  "find_in_map",
+  intrinsic("Fn::FindInMap", ["any", "any", "any"]),
+);
+registerFunction(
+  "base64",
+  intrinsic("Fn::Base64", ["any"], ([value]) => value!),
+);
+registerFunction("cidr", intrinsic("Fn::Cidr", ["any", "any", "any"]));
+registerFunction("equals", intrinsic("Fn::Equals", ["any", "any"]));
+registerFunction("and", {
+  ...intrinsic("Fn::And", ["any", "any"]),
+  variadic: "any",
+});
+registerFunction("or", {
+  ...intrinsic("Fn::Or", ["any", "any"]),
+  variadic: "any",
+});
+registerFunction("not", intrinsic("Fn::Not", ["any"]));
+registerFunction(
+  "condition",
+  intrinsic("Condition", ["string"], ([name]) => name!),
+);
+
+// `join` and `split` shadow the general functions of the same name. On
+// plain values they give the same result, which is also what CloudFormation
+// would compute
+registerFunction("join", {
+  params: ["string", "any"],
+  service: "cloudformation",
+  call: ([separator, list]) =>
+    Array.isArray(list) &&
+    list.every((item) => item !== null && typeof item !== "object")
+      ? list.map(String).join(separator as string)
+      : { "Fn::Join": [separator!, list!] },
+});
+registerFunction("split", {
+  params: ["string", "any"],
+  service: "cloudformation",
+  call: ([separator, s]) =>
+    typeof s === "string"
+      ? s.split(separator as string)
+      : { "Fn::Split": [separator!, s!] },
+});
@@ -1,73 +1,573 @@
+import { HCLErrorList, HCLParseError } from "./errors";
+
+/**
+ * Position of a token or character within an HCL source file.
+ * Lines and columns are 1-based, offsets are 0-based.
+ */
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+  offset: number;
+}
+
 /**
  * Represents a token in the HCL language.
  */
-export type Token =
+export type Token = (
   | { type: "identifier"; value: string }
   | { type: "string"; value: string }
   | { type: "number"; value: number }
   | { type: "boolean"; value: boolean }
-  | { type: "symbol"; value: string };
+  | { type: "null"; value: null }
+  | { type: "symbol"; value: string }
+) & {
+  loc: SourceLocation;
+  /** Source text of the token, e.g. `"a\\n"` for a string or a whole heredoc */
+  raw: string;
+};
 
 /**
- * Tokenizes HCL input string into an array of tokens.
+ * A source comment with its markers (`#`, `//`, `/* *\/`) removed.
+ */
+export interface Comment {
+  /** Comment text; block comments may span several lines */
+  text: string;
+  loc: SourceLocation;
+}
+
+/**
+ * Tokens and comments read from HCL source in one pass.
+ */
+export interface ScanResult {
+  tokens: Token[];
+  comments: Comment[];
+  /** Problems found in the source, in source order */
+  errors: HCLParseError[];
+}
+
+/**
+ * Operators and punctuation, longest first so that `==` wins over `=`.
+ */
+const SYMBOLS = [
+  "...",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "=>",
+  ..."{}=[],.()?:+-*/%!<>",
+];
+
+/**
+ * Creates a function that maps offsets in `input` to source locations.
  *
- * Supports:
- * - Comments (# and // for single-line, /* ... *\/ for multi-line)
- * - Strings (double-quoted)
- * - Numbers (integers, floats, negative numbers, scientific notation)
- * - Booleans (true, false)
- * - Identifiers
- * - Symbols ({, }, =, [, ], ,)
+ * @param input - The source text offsets refer to
+ * @param file - File name recorded in each location
+ * @returns Function converting a 0-based offset into a {@link SourceLocation}
+ */
+export function createLocator(
+  input: string,
+  file: string,
+): (offset: number) => SourceLocation {
+  const lineStarts = [0];
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] === "\n") lineStarts.push(i + 1);
+  }
+
+  return (offset) => {
+    // Binary search for the last line starting at or before offset
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid]! <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return {
+      file,
+      line: lo + 1,
+      column: offset - lineStarts[lo]! + 1,
+      offset,
+    };
+  };
+}
+
+/**
+ * Single-character escape sequences allowed in quoted strings.
+ */
+const SIMPLE_ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  '"': '"',
+  "\\": "\\",
+};
+
+/**
+ * Resolves HCL escape sequences in the body of a quoted string.
  *
- * @param input - The HCL string to tokenize
- * @returns Array of tokens representing the HCL structure
+ * Supports `\n`, `\r`, `\t`, `\"`, `\\`, `\uNNNN` and `\UNNNNNNNN`.
+ * Template sequences such as `${` and `$${` are left untouched.
+ *
+ * @param body - String contents without the surrounding quotes
+ * @param fail - Called with a message and the body offset of an invalid
+ *   escape, which is then left out of the value
+ * @returns The unescaped string value
+ */
+function unescapeString(
+  body: string,
+  fail: (message: string, offset: number) => void,
+): string {
+  let result = "";
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i]!;
+    if (char !== "\\") {
+      result += char;
+      continue;
+    }
+
+    const next = body[i + 1] ?? "";
+    const simple = SIMPLE_ESCAPES[next];
+    if (simple !== undefined) {
+      result += simple;
+      i++;
+    } else if (next === "u" || next === "U") {
+      const length = next === "u" ? 4 : 8;
+      const hex = body.slice(i + 2, i + 2 + length);
+      if (!/^[0-9A-Fa-f]+$/.test(hex) || hex.length !== length) {
+        fail(`Invalid unicode escape: expected ${length} hex digits`, i);
+        i++;
+        continue;
+      }
+      const codePoint = parseInt(hex, 16);
+      if (codePoint > 0x10ffff) {
+        fail(`Invalid unicode code point: \\${next}${hex}`, i);
+      } else {
+        result += String.fromCodePoint(codePoint);
+      }
+      i += 1 + length;
+    } else {
+      fail(`Invalid escape sequence: \\${next}`, i);
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Removes the common leading whitespace from heredoc lines, as done by the
+ * indented `<<-MARKER` form. Blank lines don't affect the indentation level.
+ *
+ * @param lines - Heredoc body lines
+ * @returns Lines with the shared indentation stripped
+ */
+function dedent(lines: string[]): string[] {
+  const indents = lines
+    .filter((line) => line.trim() !== "")
+    .map((line) => line.match(/^[ \t]*/)![0].length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(Math.min(common, line.length)));
+}
+
+/**
+ * Checks whether a character can start an identifier.
+ * @param char - Character to check (may be undefined at end of input)
+ * @returns true for ASCII letters and `_`
+ */
+function isIdentifierStart(char: string | undefined): boolean {
+  return char !== undefined && /[A-Za-z_]/.test(char);
+}
+
+/**
+ * Checks whether a character can continue an identifier.
+ * @param char - Character to check (may be undefined at end of input)
+ * @returns true for ASCII letters, digits, `_` and `-`
+ */
+function isIdentifierPart(char: string | undefined): boolean {
+  return char !== undefined && /[A-Za-z0-9_-]/.test(char);
+}
+
+/**
+ * Checks whether a character is a decimal digit.
+ * @param char - Character to check (may be undefined at end of input)
+ * @returns true for `0` to `9`
+ */
+function isDigit(char: string | undefined): boolean {
+  return char !== undefined && char >= "0" && char <= "9";
+}
+
+/**
+ * Normalizes a comment: single-line comments lose the marker and one
+ * following space; block comments lose their delimiters and any leading `*`
+ * on continuation lines, but keep their line structure.
+ *
+ * @param raw - Comment source, including its markers
+ * @returns Comment text
+ */
+function commentText(raw: string): string {
+  if (!raw.startsWith("/*")) {
+    return raw.replace(/^(?:#|\/\/) ?/, "").trimEnd();
+  }
+  const lines = raw
+    .slice(2, -2)
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*\*? ?/, "").trimEnd());
+  while (lines[0] === "") lines.shift();
+  while (lines[lines.length - 1] === "") lines.pop();
+  return lines.join("\n");
+}
+
+/**
+ * Reads HCL source into tokens and comments with a hand-written scanner.
+ *
+ * The scanner looks at each character once, choosing what to read from the
+ * character it is at: whitespace, a comment (`#`, `//`, `/* *\/`), a quoted
+ * string, a heredoc, a number, an identifier or keyword, or a symbol. Since
+ * strings and heredocs are read as a whole, comment markers inside them are
+ * kept as text. Inside a quoted string, `${...}` and `%{...}` sequences may
+ * contain nested quoted strings; their text is kept verbatim for the
+ * template parser, while escapes in the rest of the string are resolved.
+ *
+ * Problems don't stop the scan: unknown characters, unterminated strings,
+ * heredocs or block comments, and invalid escape sequences are recorded in
+ * `errors`, and scanning resumes after them. An unknown character is kept
+ * as a symbol token, so that the parser skips the item containing it.
+ *
+ * @param input - The HCL source
+ * @param file - File name recorded in locations (defaults to `<input>`)
+ * @returns Tokens, comments and errors, each in source order
  *
  * @example
  * ```typescript
- * const tokens = tokenize('resource "aws_instance" "web" { ami = "ami-123" enabled = true }');
- * // Returns: [{ type: "identifier", value: "resource" }, { type: "string", value: "aws_instance" }, ...]
+ * const { tokens, comments } = scan('url = "see # anchor" # docs');
+ * // tokens: url, =, "see # anchor"; comments: [{ text: "docs", ... }]
  * ```
  */
-export function tokenize(input: string): Token[] {
-  // First, remove comments
-  let cleanedInput = input;
+export function scan(input: string, file = "<input>"): ScanResult {
+  const tokens: Token[] = [];
+  const comments: Comment[] = [];
+  const errors: HCLParseError[] = [];
 
-  // Remove single-line comments (# and //)
-  cleanedInput = cleanedInput.replace(/(?:^|\s)(#|\/\/).*$/gm, "");
+  // Line bookkeeping for locations. Tokens are located in source order, so
+  // every character is counted once.
+  let line = 1;
+  let lineStart = 0;
+  let counted = 0;
 
-  // Remove multi-line comments (/* ... */)
-  cleanedInput = cleanedInput.replace(/\/\*[\s\S]*?\*\//g, "");
+  /**
+   * Returns the location of an offset at or after the last one located.
+   * @param offset - 0-based offset into the input
+   * @returns Source location of the offset
+   */
+  function locate(offset: number): SourceLocation {
+    if (offset < counted) return createLocator(input, file)(offset);
+    for (; counted < offset; counted++) {
+      if (input[counted] === "\n") {
+        line++;
+        lineStart = counted + 1;
+      }
+    }
+    return { file, line, column: offset - lineStart + 1, offset };
+  }
 
-  const tokens: Token[] = [];
+  /**
+   * Records a lexing error.
+   * @param message - Description of the problem
+   * @param offset - Offset of the offending character
+   */
+  function error(message: string, offset: number): void {
+    errors.push(new HCLParseError(message, locate(offset), input));
+  }
+
+  /**
+   * Finds where a `${...}` or `%{...}` sequence in a quoted string ends,
+   * skipping nested braces and quoted strings.
+   * @param from - Offset just after the opening `{`
+   * @returns Offset just past the closing `}`; for an unterminated
+   *   sequence, the offset of the line break or quote that ends the string
+   */
+  function skipSequence(from: number): number {
+    let depth = 1;
+    for (let i = from; i < input.length; i++) {
+      const char = input[i];
+      if (char === "\n") return i;
+      if (char === '"') {
+        let j = i + 1;
+        while (j < input.length && input[j] !== '"' && input[j] !== "\n") {
+          j += input[j] === "\\" && input[j + 1] !== "\n" ? 2 : 1;
+        }
+        // A quote without a partner closes the enclosing string instead
+        if (input[j] !== '"') return i;
+        i = j;
+      } else if (char === "{") {
+        depth++;
+      } else if (char === "}" && --depth === 0) {
+        return i + 1;
+      }
+    }
+    return input.length;
+  }
+
+  /**
+   * Reads a quoted string. An unterminated string ends at the line break.
+   * @param start - Offset of the opening quote
+   * @returns The string value and the offset just past the closing quote
+   */
+  function readString(start: number): { value: string; end: number } {
+    let value = "";
+    // Start of literal text whose escapes are not yet resolved
+    let segment = start + 1;
+
+    const flush = (end: number) => {
+      const from = segment;
+      value += unescapeString(input.slice(from, end), (message, offset) =>
+        error(message, from + offset),
+      );
+    };
+
+    let i = start + 1;
+    while (i < input.length && input[i] !== "\n") {
+      const char = input[i];
+      const next = input[i + 1];
+      if (char === '"') {
+        flush(i);
+        return { value, end: i + 1 };
+      }
+      if (char === "\\") {
+        // A backslash before a line break leaves the string unterminated
+        i += next === "\n" ? 1 : 2;
+      } else if (char === next && (char === "$" || char === "%")) {
+        // `$${` and `%%{` are literal; the template parser unescapes them
+        i += input[i + 2] === "{" ? 3 : 1;
+      } else if ((char === "$" || char === "%") && next === "{") {
+        flush(i);
+        const end = skipSequence(i + 2);
+        value += input.slice(i, end);
+        segment = i = end;
+      } else {
+        i++;
+      }
+    }
+    error("Unterminated string", start);
+    const end = Math.min(i, input.length);
+    flush(end);
+    return { value, end };
+  }
+
+  /**
+   * Reads a heredoc body following its `<<MARKER` opener. An unterminated
+   * heredoc ends with the input.
+   * @param start - Offset of the opener
+   * @param marker - The marker name
+   * @param indented - Whether the opener is the `<<-` form
+   * @returns The heredoc value and the offset just past the closing marker
+   */
+  function readHeredoc(
+    start: number,
+    marker: string,
+    indented: boolean,
+  ): { value: string; end: number } {
+    const openerEnd = start + (indented ? 3 : 2) + marker.length;
+    const firstBreak = input.indexOf("\n", openerEnd);
+    const rest = input.slice(
+      openerEnd,
+      firstBreak === -1 ? undefined : firstBreak,
+    );
+    if (firstBreak === -1 || rest.trim() !== "") {
+      error(`Expected newline after heredoc marker ${marker}`, openerEnd);
+      return { value: "", end: firstBreak === -1 ? input.length : firstBreak };
+    }
+
+    const lines: string[] = [];
+    let cursor = firstBreak + 1;
+    while (cursor <= input.length) {
+      const lineBreak = input.indexOf("\n", cursor);
+      const lineEnd = lineBreak === -1 ? input.length : lineBreak;
+      const text = input.slice(cursor, lineEnd).replace(/\r$/, "");
+
+      if (text.trim() === marker) {
+        const body = indented ? dedent(lines) : lines;
+        return { value: body.map((l) => `${l}\n`).join(""), end: lineEnd };
+      }
+
+      lines.push(text);
+      cursor = lineEnd + 1;
+    }
+
+    error(`Unterminated heredoc ${marker}`, start);
+    return { value: lines.map((l) => `${l}\n`).join(""), end: input.length };
+  }
+
+  /**
+   * Returns the end of a comment starting at an offset, if there is one.
+   * An unterminated block comment ends with the input.
+   * @param start - Offset to check
+   * @returns Offset just past the comment, or -1 if none starts there
+   */
+  function commentEnd(start: number): number {
+    const char = input[start];
+    const next = input[start + 1];
+    if (char === "#" || (char === "/" && next === "/")) {
+      const lineBreak = input.indexOf("\n", start);
+      const end = lineBreak === -1 ? input.length : lineBreak;
+      return input[end - 1] === "\r" ? end - 1 : end;
+    }
+    if (char === "/" && next === "*") {
+      const close = input.indexOf("*/", start + 2);
+      if (close !== -1) return close + 2;
+      error("Unterminated comment", start);
+      return input.length;
+    }
+    return -1;
+  }
+
+  let pos = 0;
+  while (pos < input.length) {
+    const start = pos;
+    const char = input[pos]!;
+    const next = input[pos + 1];
+
+    // Whitespace
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
 
-  // Updated regex to support:
-  // 1. Strings (double-quoted)
-  // 2. Booleans (true/false)
-  // 3. Identifiers
-  // 4. Numbers (including negative, floats, scientific notation)
-  // 5. Symbols
-  const re =
-    /\s*(?:(\"[^\"]*\")|(\btrue\b|\bfalse\b)|([A-Za-z_][A-Za-z0-9_-]*)|(-?[0-9]+(?:\.[0-9]+)?(?:[eE][+-]?[0-9]+)?)|(\{|\}|\=|\[|\]|,))\s*/g;
-  let match;
-
-  while ((match = re.exec(cleanedInput)) !== null) {
-    if (match[1]) {
+    // Comments
+    const end = commentEnd(start);
+    if (end !== -1) {
+      const raw = input.slice(start, end);
+      comments.push({ text: commentText(raw), loc: locate(start) });
+      pos = end;
+      continue;
+    }
+
+    const loc = locate(start);
+
+    if (char === '"') {
       // String
-      tokens.push({ type: "string", value: match[1].slice(1, -1) });
-    } else if (match[2]) {
-      // Boolean
-      tokens.push({ type: "boolean", value: match[2] === "true" });
-    } else if (match[3]) {
-      // Identifier
-      tokens.push({ type: "identifier", value: match[3] });
-    } else if (match[4]) {
-      // Number
-      tokens.push({ type: "number", value: parseFloat(match[4]) });
-    } else if (match[5]) {
+      const { value, end } = readString(start);
+      const raw = input.slice(start, end);
+      tokens.push({ type: "string", value, loc, raw });
+      pos = end;
+    } else if (
+      char === "<" &&
+      next === "<" &&
+      (isIdentifierStart(input[pos + 2]) ||
+        (input[pos + 2] === "-" && isIdentifierStart(input[pos + 3])))
+    ) {
+      // Heredoc, including its body and closing marker
+      const indented = input[pos + 2] === "-";
+      let markerEnd = pos + (indented ? 3 : 2);
+      while (isIdentifierPart(input[markerEnd])) markerEnd++;
+      const marker = input.slice(pos + (indented ? 3 : 2), markerEnd);
+      const { value, end } = readHeredoc(start, marker, indented);
+      const raw = input.slice(start, end);
+      tokens.push({ type: "string", value, loc, raw });
+      pos = end;
+    } else if (isIdentifierStart(char)) {
+      // Identifier, or the true/false/null keywords
+      while (isIdentifierPart(input[pos])) pos++;
+      const raw = input.slice(start, pos);
+      if (raw === "null") {
+        tokens.push({ type: "null", value: null, loc, raw });
+      } else if (raw === "true" || raw === "false") {
+        tokens.push({ type: "boolean", value: raw === "true", loc, raw });
+      } else {
+        tokens.push({ type: "identifier", value: raw, loc, raw });
+      }
+    } else if (isDigit(char) || (char === "-" && isDigit(next))) {
+      // Number, including negative numbers and scientific notation
+      pos++;
+      while (isDigit(input[pos])) pos++;
+      if (input[pos] === "." && isDigit(input[pos + 1])) {
+        pos++;
+        while (isDigit(input[pos])) pos++;
+      }
+      const sign = input[pos + 1] === "+" || input[pos + 1] === "-" ? 1 : 0;
+      if (
+        (input[pos] === "e" || input[pos] === "E") &&
+        isDigit(input[pos + 1 + sign])
+      ) {
+        pos += 1 + sign;
+        while (isDigit(input[pos])) pos++;
+      }
+      const raw = input.slice(start, pos);
+      tokens.push({ type: "number", value: parseFloat(raw), loc, raw });
+    } else {
       // Symbol
-      tokens.push({ type: "symbol", value: match[5] });
+      let symbol = SYMBOLS.find((s) => input.startsWith(s, pos));
+      if (!symbol) {
+        error(`Unexpected character '${char}'`, start);
+        symbol = char;
+      }
+      tokens.push({ type: "symbol", value: symbol, loc, raw: symbol });
+      pos += symbol.length;
     }
   }
 
+  // Escapes are checked once their string has been read
+  errors.sort((a, b) => a.loc.offset - b.loc.offset);
+  return { tokens, comments, errors };
+}
+
+/**
+ * Tokenizes HCL input string into an array of tokens.
+ *
+ * Supports:
+ * - Comments (# and // for single-line, /* ... *\/ for multi-line)
+ * - Strings (double-quoted, with HCL escape sequences)
+ * - Heredocs (`<<MARKER` and indented `<<-MARKER`), tokenized as strings
+ * - Numbers (integers, floats, negative numbers, scientific notation)
+ * - Booleans (true, false) and null
+ * - Identifiers
+ * - Symbols ({, }, =, [, ], ,, ., (, ), ?, :, =>, ..., and operators)
+ *
+ * Every token carries its {@link SourceLocation}. Comments are skipped; use
+ * {@link scan} to get them as well.
+ *
+ * @param input - The HCL string to tokenize
+ * @param file - File name recorded in token locations (defaults to `<input>`)
+ * @returns Array of tokens representing the HCL structure
+ * @throws HCLParseError on unknown characters, unterminated strings or
+ *   heredocs, or invalid escape sequences, or an {@link HCLErrorList} when
+ *   there are several
+ *
+ * @example
+ * ```typescript
+ * const tokens = tokenize('resource "aws_instance" "web" { ami = "ami-123" enabled = true }');
+ * // Returns: [{ type: "identifier", value: "resource", loc: { line: 1, column: 1, ... } }, ...]
+ * ```
+ */
+export function tokenize(input: string, file = "<input>"): Token[] {
+  const { tokens, errors } = scan(input, file);
+  if (errors.length > 0) throw HCLErrorList.of(errors);
   return tokens;
 }
+
+/**
+ * Collects the comments in HCL input, in source order.
+ *
+ * Single-line comments become one-line text with the marker and one
+ * following space removed. Block comments keep their line structure, minus
+ * the delimiters and any leading `*` on continuation lines.
+ *
+ * @param input - The HCL source
+ * @param file - File name recorded in comment locations (defaults to `<input>`)
+ * @returns Comments with their locations
+ * @throws HCLParseError if the input cannot be tokenized
+ *
+ * @example
+ * ```typescript
+ * scanComments("# Web tier\nweb { }");
+ * // Returns: [{ text: "Web tier", loc: { line: 1, column: 1, ... } }]
+ * ```
+ */
+export function scanComments(input: string, file = "<input>"): Comment[] {
+  const { comments, errors } = scan(input, file);
+  if (errors.length > 0) throw HCLErrorList.of(errors);
+  return comments;
+}
@@ -1,20 +1,111 @@
-import { type Token, tokenize } from "./lexer";
+import { readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import {
+  type Comment,
+  type SourceLocation,
+  type Token,
+  createLocator,
+  scan,
+  tokenize,
+} from "./lexer";
+import { HCLErrorList, HCLParseError } from "./errors";
+import {
+  type Attribute,
+  type BinaryOperator,
+  type Block,
+  type Body,
+  type Expression,
+  type TraversalStep,
+  type UnaryOperator,
+  BINARY_OPERATORS,
+} from "./ast";
+import { hasTemplateSequences, parseTemplate } from "./template";
+import {
+  type CSTAttribute,
+  type CSTBlock,
+  type CSTBody,
+  type CSTDocument,
+  type CSTToken,
+  attachTrivia,
+  toBody,
+} from "./cst";
+import { evaluateDocument } from "./evaluator";
+import { type ServiceType, parseDirective } from "../directives/parser";
 
 /**
- * Represents a parsed HCL value which can be a string, number, boolean, array, or object.
+ * Represents a parsed HCL value which can be a string, number, boolean, null, array, or object.
  */
-export type HCLValue = 
-  | string 
-  | number 
-  | boolean 
-  | HCLValue[] 
+export type HCLValue =
+  | string
+  | number
+  | boolean
+  | null
+  | HCLValue[]
   | Record<string, unknown>;
 
+/**
+ * Supported strategies for repeated blocks with the same type and labels.
+ */
+export const DUPLICATE_BLOCK_POLICIES = ["list", "error", "last-wins"] as const;
+
+/**
+ * How repeated blocks are handled:
+ * - `list`: collect them into an array in declaration order
+ * - `error`: reject the duplicate with a parse error
+ * - `last-wins`: keep only the last block
+ */
+export type DuplicateBlockPolicy = (typeof DUPLICATE_BLOCK_POLICIES)[number];
+
+/**
+ * Options controlling how HCL input is parsed.
+ */
+export interface ParseOptions {
+  /** File name used in error locations (defaults to `<input>`) */
+  file?: string;
+  /** Strategy for repeated blocks (defaults to `list`) */
+  duplicateBlocks?: DuplicateBlockPolicy;
+  /**
+   * Directory that relative paths in functions such as `file()` resolve
+   * against (defaults to the directory of `file`, or the working directory)
+   */
+  baseDir?: string;
+  /**
+   * Values of `variable` blocks, overriding their defaults. Each is
+   * converted to the variable's declared `type`.
+   */
+  variables?: Record<string, HCLValue>;
+  /**
+   * Service whose own functions, such as CloudFormation's `ref()`, can be
+   * called (defaults to the service named by the files' `use` directive)
+   */
+  service?: ServiceType;
+}
+
+/**
+ * An HCL file to parse together with others.
+ */
+export interface HCLSource {
+  /** File name used in error locations */
+  file: string;
+  /** Contents of the file */
+  source: string;
+}
+
 /**
  * Parses HCL input string into a JavaScript object.
  *
+ * Strings and heredocs are evaluated as templates: `${...}` interpolations
+ * and `%{ if }` / `%{ for }` directives are resolved against `locals` and
+ * `variable` blocks declared in the same input, which are left out of the
+ * result. Variables take their value from `options.variables`, or else
+ * their `default`. Function calls such as `jsonencode(...)` use the
+ * built-in library in `functions.ts`.
+ *
  * @param input - The HCL string to parse
+ * @param options - Parse options such as the source file name
  * @returns Parsed HCL structure as a JavaScript object
+ * @throws HCLParseError with the location and code frame of the offending token
+ * @throws Error if `options.variables` sets a variable that is not declared
  *
  * @example
  * ```typescript
@@ -22,9 +113,219 @@ export type HCLValue =
  * // Returns: { resource: { aws_instance: { web: { ami: "ami-123" } } } }
  * ```
  */
-export function parseHCL(input: string): Record<string, HCLValue> {
-  const tokens = tokenize(input);
+export function parseHCL(
+  input: string,
+  options: ParseOptions = {},
+): Record<string, HCLValue> {
+  const { file, ...rest } = options;
+  return parseHCLFiles([{ file: file ?? "<input>", source: input }], {
+    ...rest,
+    baseDir: rest.baseDir ?? (file ? undefined : process.cwd()),
+  });
+}
+
+/**
+ * Parses several HCL files into one JavaScript object, as if their items
+ * were written in a single file in the given order. `locals` and `variable`
+ * blocks are shared between the files, and repeated blocks are combined
+ * according to `duplicateBlocks`. An attribute, local value or variable
+ * defined in more than one file is an error naming both files.
+ *
+ * Relative paths in functions such as `file()` resolve against the
+ * directory of the file containing the call, unless `baseDir` is given.
+ *
+ * @param files - Files to parse, in merge order
+ * @param options - Parse options; `file` is ignored
+ * @returns Merged HCL structure as a JavaScript object
+ * @throws HCLParseError with the location and code frame of the offending
+ *   token, or an {@link HCLErrorList} listing the problems of every file
+ * @throws Error if `options.variables` sets a variable that is not declared
+ *
+ * @example
+ * ```typescript
+ * parseHCLFiles([
+ *   { file: "namespace.hcl", source: 'Namespace { name = "web" }' },
+ *   { file: "service.hcl", source: "Service { port = 80 }" },
+ * ]);
+ * // { Namespace: { name: "web" }, Service: { port: 80 } }
+ * ```
+ */
+export function parseHCLFiles(
+  files: HCLSource[],
+  options: ParseOptions = {},
+): Record<string, HCLValue> {
+  return parseFiles(files, options, []);
+}
+
+/**
+ * Parses files as one document, resolving their `include` and `import`
+ * directives. Included files are merged in before the file including them,
+ * at most once each; imported files are parsed on their own and bound to
+ * their name.
+ *
+ * @param files - Files to parse, in merge order
+ * @param options - Parse options
+ * @param chain - Files whose imports led to these ones, outermost first, to
+ *   detect cycles
+ * @returns Merged HCL structure as a JavaScript object
+ */
+function parseFiles(
+  files: HCLSource[],
+  options: ParseOptions,
+  chain: string[],
+): Record<string, HCLValue> {
+  const sources = new Map<string, string>();
+  const items: Body["items"] = [];
+  const imports: Record<string, HCLValue> = {};
+  const errors: HCLParseError[] = [];
+  // Service of the document, from the options or the first `use` directive
+  let service = options.service ?? null;
+  // Files already in the document, by absolute path
+  const included = new Set(files.map(({ file }) => resolve(file)));
+
+  const collect = (err: unknown) => {
+    if (!(err instanceof HCLParseError)) throw err;
+    errors.push(...(err instanceof HCLErrorList ? err.errors : [err]));
+  };
+
+  /**
+   * Adds the items of a file to the document, after those of the files it
+   * includes.
+   * @param file - File name used in error locations
+   * @param source - Contents of the file
+   * @param stack - Files including this one, outermost first
+   */
+  function load(file: string, source: string, stack: string[]): void {
+    sources.set(file, source);
+    const { cleanedInput, includes, serviceType } = parseDirective(source);
+    service ??= serviceType;
+    const locate = createLocator(source, file);
+
+    for (const { kind, path, name, offset } of includes) {
+      try {
+        const fail = (message: string): never => {
+          throw new HCLParseError(message, locate(offset), source);
+        };
+        // Paths are relative to the including file
+        const target = join(dirname(file), path);
+        const ancestors = [...stack, file];
+        const cycleStart = ancestors.findIndex(
+          (f) => resolve(f) === resolve(target),
+        );
+        if (cycleStart !== -1) {
+          fail(
+            `Cycle detected: ${[...ancestors.slice(cycleStart), target].join(" -> ")}`,
+          );
+        }
+
+        let text = "";
+        try {
+          text = readFileSync(target, "utf8");
+        } catch {
+          fail(`Cannot ${kind} '${path}': no such file`);
+        }
+
+        if (kind === "include") {
+          if (included.has(resolve(target))) continue;
+          included.add(resolve(target));
+          load(target, text, ancestors);
+        } else {
+          if (name === "local" || name === "var") {
+            fail(`Cannot import as '${name}', which is reserved`);
+          }
+          if (Object.hasOwn(imports, name!)) {
+            fail(`Duplicate import '${name}'`);
+          }
+          imports[name!] = parseFiles(
+            [{ file: target, source: text }],
+            {
+              duplicateBlocks: options.duplicateBlocks,
+              baseDir: options.baseDir,
+              service: service ?? undefined,
+            },
+            ancestors,
+          );
+        }
+      } catch (err) {
+        collect(err);
+      }
+    }
+
+    // Parse every file before giving up, so one run reports all syntax errors
+    try {
+      items.push(...toBody(parseCST(cleanedInput, file).body).items);
+    } catch (err) {
+      collect(err);
+    }
+  }
+
+  for (const { file, source } of files) load(file, source, chain);
+  if (errors.length > 0) {
+    throw HCLErrorList.of(errors);
+  }
+
+  return evaluateDocument(
+    { items },
+    {
+      sources,
+      duplicateBlocks: options.duplicateBlocks ?? "list",
+      baseDir: options.baseDir,
+      variables: options.variables ?? {},
+      imports,
+      service,
+    },
+  );
+}
+
+/**
+ * Parses HCL input into a lossless concrete syntax tree, without evaluating
+ * expressions. Every token keeps its source text and the whitespace and
+ * comments before it, so the tree can be printed back unchanged or
+ * reformatted.
+ *
+ * @param input - The HCL string to parse
+ * @param file - File name used in error locations (defaults to `<input>`)
+ * @returns Concrete syntax tree of the input
+ * @throws HCLParseError with the location and code frame of the offending
+ *   token, or an {@link HCLErrorList} when several items are malformed or
+ *   several characters can't be scanned
+ *
+ * @example
+ * ```typescript
+ * const cst = parseCST('name = "web" # service name\n');
+ * printCST(cst); // 'name = "web" # service name\n'
+ * ```
+ */
+export function parseCST(input: string, file = "<input>"): CSTDocument {
+  const scanned = scan(input, file);
+  let tokens = scanned.tokens;
   let pos = 0;
+  const { tokens: withTrivia, trailing } = attachTrivia(input, tokens);
+  // Tokens with trivia, parallel to `tokens`
+  let cstTokens: CSTToken[] = withTrivia;
+  // Where "unexpected end of input" is reported; overridden inside templates
+  let endLoc: SourceLocation | undefined;
+  // Comments in source order; those from `nextComment` on are not yet
+  // attached to an attribute or block
+  let comments: Comment[] = scanned.comments;
+  let nextComment = 0;
+  // Problems found in malformed items, reported once the whole input is read
+  const errors: HCLParseError[] = [];
+  // Whether the expression being parsed is directly a tuple item
+  let inTupleItem = false;
+
+  /**
+   * Builds a parse error pointing at the given token, or at the end of input.
+   * @param message - Description of the problem
+   * @param token - Offending token (omit for unexpected end of input)
+   * @returns Error ready to be thrown
+   */
+  function error(message: string, token?: Token): HCLParseError {
+    const loc = token
+      ? token.loc
+      : (endLoc ?? createLocator(input, file)(input.trimEnd().length));
+    return new HCLParseError(message, loc, input);
+  }
 
   /**
    * Returns the current token without consuming it.
@@ -39,121 +340,703 @@ export function parseHCL(input: string): Record<string, HCLValue> {
    * @param expectedType - Expected token type (optional)
    * @param expectedValue - Expected token value (optional)
    * @returns The consumed token
-   * @throws Error if token doesn't match expectations or input ends unexpectedly
+   * @throws HCLParseError if token doesn't match expectations or input ends unexpectedly
    */
   function consume(expectedType?: string, expectedValue?: string): Token {
     const token = tokens[pos++];
-    if (!token) throw new Error("Unexpected end of input");
+    if (!token) throw error("Unexpected end of input");
     if (expectedType && token.type !== expectedType)
-      throw new Error(`Expected ${expectedType}, got ${token.type}`);
+      throw error(`Expected ${expectedType}, got ${token.type}`, token);
     if (expectedValue && token.value !== expectedValue)
-      throw new Error(`Expected '${expectedValue}', got '${token.value}'`);
+      throw error(`Expected '${expectedValue}', got '${token.value}'`, token);
     return token;
   }
 
   /**
-   * Parses a value (string, number, boolean, object, or array).
-   * @returns Parsed value
+   * Parses an expression embedded in a template, such as the `var.name`
+   * in `"${var.name}"`. Errors are reported at the enclosing string.
+   * @param source - Expression source text
+   * @param at - The string token containing the template
+   * @returns Parsed expression
+   */
+  function parseEmbedded(source: string, at: Token): Expression {
+    let inner: Token[];
+    try {
+      inner = tokenize(source, file);
+    } catch (err) {
+      if (err instanceof HCLParseError) throw error(err.message, at);
+      throw err;
+    }
+
+    const saved = { tokens, cstTokens, pos, endLoc, comments, nextComment };
+    tokens = inner.map((token) => ({ ...token, loc: at.loc }));
+    cstTokens = tokens.map((token) => ({ token, leading: [] }));
+    pos = 0;
+    endLoc = at.loc;
+    comments = [];
+    nextComment = 0;
+    try {
+      const expr = parseExpression();
+      const extra = peek();
+      if (extra)
+        throw error(`Unexpected token in template: ${extra.value}`, at);
+      return expr;
+    } finally {
+      ({ tokens, cstTokens, pos, endLoc, comments, nextComment } = saved);
+    }
+  }
+
+  /**
+   * Parses a string token, turning it into a template when it contains
+   * interpolations or directives.
+   * @param token - String token
+   * @returns Literal or template expression
+   */
+  function parseString(token: Token): Expression {
+    const value = token.value as string;
+    if (!hasTemplateSequences(value)) {
+      return { kind: "literal", value, loc: token.loc };
+    }
+    const parts = parseTemplate(
+      value,
+      (source) => parseEmbedded(source, token),
+      (message) => {
+        throw error(message, token);
+      },
+    );
+    return { kind: "template", parts, loc: token.loc };
+  }
+
+  /**
+   * Removes and returns pending comments that start before an offset.
+   * @param offset - Source offset to stop at
+   * @returns Comments before the offset
    */
-  function parseValue(): HCLValue {
+  function takeComments(offset: number): Comment[] {
+    const start = nextComment;
+    while (
+      comments[nextComment] &&
+      comments[nextComment]!.loc.offset < offset
+    ) {
+      nextComment++;
+    }
+    return comments.slice(start, nextComment);
+  }
+
+  /**
+   * Collects the comments belonging to the item that ended at the last
+   * consumed token: comments above it and those later on its final line.
+   * Comments inside an attribute value or before a closing brace are
+   * dropped.
+   * @param leading - Comments taken before the item started
+   * @returns Comment lines, or undefined if there are none
+   */
+  function itemComments(leading: Comment[]): string[] | undefined {
+    const last = tokens[pos - 1]!;
+    takeComments(last.loc.offset);
+    const trailing: Comment[] = [];
+    while (comments[nextComment]?.loc.line === last.loc.line) {
+      trailing.push(comments[nextComment++]!);
+    }
+
+    const lines = [...leading, ...trailing].flatMap((comment) =>
+      comment.text.split("\n"),
+    );
+    return lines.length > 0 ? lines : undefined;
+  }
+
+  /**
+   * Returns the token `offset` positions ahead without consuming anything.
+   * @param offset - Number of tokens to look ahead
+   * @returns Token at that position or undefined if past the end
+   */
+  function peekAt(offset: number): Token | undefined {
+    return tokens[pos + offset];
+  }
+
+  /**
+   * Checks whether a token is the given symbol.
+   * @param token - Token to check
+   * @param value - Expected symbol
+   * @returns true if the token is that symbol
+   */
+  function isSymbol(token: Token | undefined, value: string): boolean {
+    return token?.type === "symbol" && token.value === value;
+  }
+
+  /**
+   * Checks whether a token is the given keyword, such as `for`, `in` or `if`.
+   * @param token - Token to check
+   * @param value - Expected keyword
+   * @returns true if the token is an identifier with that name
+   */
+  function isKeyword(token: Token | undefined, value: string): boolean {
+    return token?.type === "identifier" && token.value === value;
+  }
+
+  /**
+   * Parses a full expression, including the conditional operator
+   * (`cond ? a : b`), which binds loosest.
+   * @param tupleItem - Whether the expression is an item of a tuple, whose
+   *   commas are optional
+   * @returns Parsed expression
+   */
+  function parseExpression(tupleItem = false): Expression {
+    const outer = inTupleItem;
+    inTupleItem = tupleItem;
+    try {
+      return parseConditional();
+    } finally {
+      inTupleItem = outer;
+    }
+  }
+
+  /**
+   * Parses a binary expression, optionally followed by `? then : else`.
+   * @returns Parsed expression
+   */
+  function parseConditional(): Expression {
+    const condition = parseBinary(0);
+    if (!isSymbol(peek(), "?")) return condition;
+
+    consume("symbol", "?");
+    const then = parseExpression();
+    consume("symbol", ":");
+    const otherwise = parseExpression(inTupleItem);
+    return {
+      kind: "conditional",
+      condition,
+      then,
+      else: otherwise,
+      loc: condition.loc,
+    };
+  }
+
+  /**
+   * Returns the binary operator at the current position, if any.
+   *
+   * The lexer reads `-1` as a negative number; directly after an operand it
+   * is a subtraction, so `x -1` parses the same as `x - 1`. Tuple items
+   * need no commas between them, so there `[1 -1]` stays two items.
+   *
+   * @returns The operator and its precedence level, or undefined
+   */
+  function peekOperator():
+    | { operator: BinaryOperator; level: number }
+    | undefined {
+    const token = peek();
+    if (!token) return undefined;
+
+    let operator: string | undefined;
+    if (token.type === "symbol") operator = token.value;
+    if (
+      token.type === "number" &&
+      !inTupleItem &&
+      (token.value < 0 || Object.is(token.value, -0))
+    ) {
+      operator = "-";
+    }
+
+    const level = BINARY_OPERATORS.findIndex((ops) =>
+      (ops as readonly string[]).includes(operator ?? ""),
+    );
+    return level === -1
+      ? undefined
+      : { operator: operator as BinaryOperator, level };
+  }
+
+  /**
+   * Parses binary operators using precedence climbing. All operators are
+   * left-associative.
+   * @param minLevel - Lowest precedence level (index into BINARY_OPERATORS) to accept
+   * @returns Parsed expression
+   */
+  function parseBinary(minLevel: number): Expression {
+    let left = parseUnary();
+
+    for (
+      let op = peekOperator();
+      op && op.level >= minLevel;
+      op = peekOperator()
+    ) {
+      const token = peek()!;
+      if (token.type === "number") {
+        // Split a negative number literal into '-' and its magnitude
+        tokens[pos] = {
+          type: "number",
+          value: -token.value,
+          loc: {
+            ...token.loc,
+            column: token.loc.column + 1,
+            offset: token.loc.offset + 1,
+          },
+          raw: token.raw.slice(1),
+        };
+      } else {
+        consume();
+      }
+
+      const right = parseBinary(op.level + 1);
+      left = {
+        kind: "binary",
+        operator: op.operator,
+        left,
+        right,
+        loc: token.loc,
+      };
+    }
+
+    return left;
+  }
+
+  /**
+   * Parses prefix operators (`!` and `-`).
+   * @returns Parsed expression
+   */
+  function parseUnary(): Expression {
     const token = peek();
-    if (!token) throw new Error("Unexpected end of input");
+    if (isSymbol(token, "!") || isSymbol(token, "-")) {
+      consume();
+      return {
+        kind: "unary",
+        operator: token!.value as UnaryOperator,
+        operand: parseUnary(),
+        loc: token!.loc,
+      };
+    }
+    return parsePostfix(parsePrimary());
+  }
+
+  /**
+   * Parses traversal steps following an expression: attribute access
+   * (`.name`), indexing (`[key]`) and splats (`[*]` and `.*`).
+   * @param target - Expression being traversed
+   * @returns Expression with all steps applied
+   */
+  function parsePostfix(target: Expression): Expression {
+    let expr = target;
+    for (;;) {
+      const next = peek();
+      if (isSymbol(next, "[") && isSymbol(peekAt(1), "*")) {
+        consume("symbol", "[");
+        consume("symbol", "*");
+        consume("symbol", "]");
+        expr = parseSplat(expr, next!.loc, false);
+      } else if (isSymbol(next, ".") && isSymbol(peekAt(1), "*")) {
+        consume("symbol", ".");
+        consume("symbol", "*");
+        expr = parseSplat(expr, next!.loc, true);
+      } else if (isSymbol(next, ".") || isSymbol(next, "[")) {
+        const steps = parseSteps(false);
+        expr = { kind: "traversal", target: expr, steps, loc: expr.loc };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  /**
+   * Parses the steps applied to each element after a splat operator.
+   * @param target - Expression being splatted
+   * @param loc - Location of the splat operator
+   * @param attributesOnly - Whether only `.name` steps belong to the splat (`.*` form)
+   * @returns Splat expression
+   */
+  function parseSplat(
+    target: Expression,
+    loc: SourceLocation,
+    attributesOnly: boolean,
+  ): Expression {
+    return { kind: "splat", target, steps: parseSteps(attributesOnly), loc };
+  }
+
+  /**
+   * Parses a run of `.name` and `[key]` steps, stopping before any splat.
+   * @param attributesOnly - Whether to stop at the first `[key]` step
+   * @returns Parsed steps
+   */
+  function parseSteps(attributesOnly: boolean): TraversalStep[] {
+    const steps: TraversalStep[] = [];
+    for (;;) {
+      const next = peek();
+      if (isSymbol(next, ".") && !isSymbol(peekAt(1), "*")) {
+        consume("symbol", ".");
+        const name = consume("identifier");
+        steps.push({
+          kind: "attribute",
+          name: name.value as string,
+          loc: name.loc,
+        });
+      } else if (
+        !attributesOnly &&
+        isSymbol(next, "[") &&
+        !isSymbol(peekAt(1), "*")
+      ) {
+        consume("symbol", "[");
+        const key = parseExpression();
+        consume("symbol", "]");
+        steps.push({ kind: "index", key, loc: next!.loc });
+      } else {
+        return steps;
+      }
+    }
+  }
+
+  /**
+   * Parses a primary expression: a literal, variable reference,
+   * parenthesized expression, tuple, object, or for-expression.
+   * @returns Parsed expression
+   */
+  function parsePrimary(): Expression {
+    const token = peek();
+    if (!token) throw error("Unexpected end of input");
+
+    if (token.type === "string") {
+      consume();
+      return parseString(token);
+    }
 
     if (
-      token.type === "string" ||
       token.type === "number" ||
-      token.type === "boolean"
+      token.type === "boolean" ||
+      token.type === "null"
     ) {
       consume();
-      return token.value;
+      return { kind: "literal", value: token.value, loc: token.loc };
     }
 
-    if (token.type === "symbol" && token.value === "{") {
-      return parseObject();
+    if (token.type === "identifier") {
+      consume();
+      if (isSymbol(peek(), "(")) return parseCall(token);
+      return { kind: "variable", name: token.value, loc: token.loc };
+    }
+
+    if (isSymbol(token, "(")) {
+      consume("symbol", "(");
+      const expr = parseExpression();
+      consume("symbol", ")");
+      return expr;
     }
 
-    if (token.type === "symbol" && token.value === "[") {
+    if (isSymbol(token, "{")) {
+      if (isForHeader()) return parseFor("{", "}");
+      return { kind: "object", body: parseObject(), loc: token.loc };
+    }
+
+    if (isSymbol(token, "[")) {
+      if (isForHeader()) return parseFor("[", "]");
       return parseArray();
     }
 
-    throw new Error(`Unexpected token: ${token.value}`);
+    throw error(`Unexpected token: ${token.value}`, token);
+  }
+
+  /**
+   * Parses the argument list of a function call: `name(a, b, list...)`.
+   * @param name - Identifier token naming the function
+   * @returns Call expression
+   */
+  function parseCall(name: Token): Expression {
+    consume("symbol", "(");
+    const args: Expression[] = [];
+    let expandFinal = false;
+    while (!isSymbol(peek(), ")")) {
+      args.push(parseExpression());
+      if (isSymbol(peek(), "...")) {
+        consume("symbol", "...");
+        expandFinal = true;
+        break;
+      }
+      if (!isSymbol(peek(), ")")) consume("symbol", ",");
+    }
+    consume("symbol", ")");
+    return {
+      kind: "call",
+      name: name.value as string,
+      args,
+      expandFinal,
+      loc: name.loc,
+    };
+  }
+
+  /**
+   * Checks whether the bracket at the current position opens a
+   * for-expression (`[for x in ...` or `{for k, v in ...`).
+   * @returns true if a for-expression follows
+   */
+  function isForHeader(): boolean {
+    return (
+      isKeyword(peekAt(1), "for") &&
+      peekAt(2)?.type === "identifier" &&
+      (isKeyword(peekAt(3), "in") || isSymbol(peekAt(3), ","))
+    );
+  }
+
+  /**
+   * Parses a for-expression:
+   * `[for v in coll : value if cond]` or `{for k, v in coll : key => value... if cond}`.
+   * @param open - Opening bracket, `[` for tuples or `{` for objects
+   * @param close - Matching closing bracket
+   * @returns For expression
+   */
+  function parseFor(open: "[" | "{", close: "]" | "}"): Expression {
+    const start = consume("symbol", open);
+    consume("identifier", "for");
+    const first = consume("identifier").value as string;
+    let second: string | undefined;
+    if (isSymbol(peek(), ",")) {
+      consume("symbol", ",");
+      second = consume("identifier").value as string;
+    }
+    consume("identifier", "in");
+    const collection = parseExpression();
+    consume("symbol", ":");
+
+    let key: Expression | undefined;
+    let value = parseExpression();
+    let grouping = false;
+    if (open === "{") {
+      consume("symbol", "=>");
+      key = value;
+      value = parseExpression();
+      if (isSymbol(peek(), "...")) {
+        consume("symbol", "...");
+        grouping = true;
+      }
+    }
+
+    let condition: Expression | undefined;
+    if (isKeyword(peek(), "if")) {
+      consume("identifier", "if");
+      condition = parseExpression();
+    }
+    consume("symbol", close);
+
+    return {
+      kind: "for",
+      keyVar: second ? first : undefined,
+      valueVar: second ?? first,
+      collection,
+      key,
+      value,
+      condition,
+      grouping,
+      loc: start.loc,
+    };
   }
 
   /**
    * Parses an array of values.
-   * @returns Array of parsed values
+   * @returns Tuple expression of parsed values
    */
-  function parseArray(): HCLValue[] {
-    const arr: HCLValue[] = [];
-    consume("symbol", "[");
-    while (peek() && peek()!.value !== "]") {
-      arr.push(parseValue());
-      if (peek() && peek()!.value === ",") consume("symbol", ",");
+  function parseArray(): Expression {
+    const open = consume("symbol", "[");
+    const items: Expression[] = [];
+    while (peek() && !isSymbol(peek(), "]")) {
+      items.push(parseExpression(true));
+      if (isSymbol(peek(), ",")) consume("symbol", ",");
     }
     consume("symbol", "]");
-    return arr;
+    return { kind: "tuple", items, loc: open.loc };
   }
 
   /**
    * Parses an object with key-value pairs.
-   * @returns Object with parsed key-value pairs
+   * @returns Body with parsed attributes and blocks
    */
-  function parseObject(): Record<string, HCLValue> {
-    const obj: Record<string, HCLValue> = {};
+  function parseObject(): Body {
     consume("symbol", "{");
-    while (peek() && peek()!.value !== "}") {
-      const key = consume("identifier").value as string;
+    const obj = parseBody("}", true);
+    consume("symbol", "}");
+    return toBody(obj);
+  }
+
+  /**
+   * Parses the value of an attribute whose key has been read, starting at
+   * the `=` (or `:` in object literals) that the caller has checked for.
+   * @param keyStart - Position of the key's first token
+   * @param keyExpr - Parsed key, unless it is an identifier or plain string
+   * @param leading - Comments before the attribute
+   * @returns Concrete attribute
+   */
+  function parseAttribute(
+    keyStart: number,
+    keyExpr: Expression | undefined,
+    leading: Comment[],
+  ): CSTAttribute {
+    const key = cstTokens.slice(keyStart, pos);
+    const equals = cstTokens[pos]!;
+    consume("symbol");
+    const start = pos;
+    const expr = parseExpression();
+    return {
+      type: "attribute",
+      key,
+      keyExpr,
+      equals,
+      value: cstTokens.slice(start, pos),
+      expr,
+      comments: itemComments(leading),
+    };
+  }
+
+  /**
+   * Parses one attribute (`key = value`) or block (`name "label"* { ... }`).
+   *
+   * Besides identifiers, attribute keys may be quoted strings, such as
+   * `"app.kubernetes.io/name"`, which may contain interpolations. In object
+   * literals, a key may also be an expression in parentheses, and `:` may
+   * be used instead of `=`.
+   *
+   * @param leading - Comments before the item
+   * @param inObject - Whether the item is part of an object literal
+   * @returns Concrete attribute or block
+   */
+  function parseItem(
+    leading: Comment[],
+    inObject: boolean,
+  ): CSTAttribute | CSTBlock {
+    const keyStart = pos;
+    const first = peek();
+    const isAssignment = (token: Token | undefined) =>
+      isSymbol(token, "=") || (inObject && isSymbol(token, ":"));
+
+    // Quoted key: a block body can't start with a string otherwise
+    if (first?.type === "string" && isAssignment(peekAt(1))) {
+      const key = parseString(consume("string"));
+      const keyExpr = key.kind === "literal" ? undefined : key;
+      return parseAttribute(keyStart, keyExpr, leading);
+    }
 
-      // Check if next token is '=' or '{'
+    // Computed key in an object literal
+    if (inObject && isSymbol(first, "(")) {
+      consume("symbol", "(");
+      const keyExpr = parseExpression();
+      consume("symbol", ")");
       const next = peek();
-      if (next && next.type === "symbol" && next.value === "{") {
-        // Nested block without '='
-        obj[key] = parseObject();
-      } else {
-        // Key-value pair with '='
-        consume("symbol", "=");
-        obj[key] = parseValue();
+      if (!isAssignment(next)) {
+        throw next
+          ? error(`Expected '=' or ':', got '${next.value}'`, next)
+          : error("Unexpected end of input");
       }
+      return parseAttribute(keyStart, keyExpr, leading);
+    }
+
+    const name = cstTokens[pos]!;
+    consume("identifier");
+
+    // Check if next token is '=' (or ':') or the start of a block
+    if (isAssignment(peek())) {
+      return parseAttribute(keyStart, undefined, leading);
     }
+
+    const labels: CSTToken[] = [];
+    while (peek() && peek()!.type === "string") {
+      labels.push(cstTokens[pos]!);
+      consume("string");
+    }
+    const brace = peek();
+    if (!brace) throw error("Unexpected end of input");
+    if (brace.type !== "symbol" || brace.value !== "{")
+      throw error(`Expected '=' or '{', got '${brace.value}'`, brace);
+
+    const open = cstTokens[pos]!;
+    consume("symbol", "{");
+    const body = parseBody("}");
+    const close = cstTokens[pos]!;
     consume("symbol", "}");
-    return obj;
+    return {
+      type: "block",
+      name,
+      labels,
+      open,
+      body,
+      close,
+      comments: itemComments(leading),
+    };
   }
 
   /**
-   * Parses top-level HCL structure with nested names.
-   * @returns Parsed top-level structure
+   * Skips the rest of a malformed item so parsing can resume. Stops at the
+   * first token after the error that starts a line outside the brackets
+   * the item opened, after a comma separating object literal items, or at
+   * the bracket that closes the enclosing body.
+   * @param start - Position of the item's first token
+   * @param err - Error raised while parsing the item
+   * @param closing - Token value that ends the enclosing body, if any
+   * @param inObject - Whether the enclosing body is an object literal
    */
-  function parseTopLevel(): Record<string, HCLValue> {
-    const result: Record<string, HCLValue> = {};
-    while (peek()) {
-      const key = consume("identifier").value as string;
-      const names: string[] = [];
-      while (peek() && peek()!.type === "string") {
-        const token = consume("string");
-        names.push(token.value as string);
-      }
-      const value = parseValue();
-
-      // Nest structure based on names
-      let curr = (result[key] as Record<string, HCLValue>) || {};
-      let ref = curr as Record<string, HCLValue>;
-      for (let i = 0; i < names.length - 1; i++) {
-        const n = names[i];
-        if (n) {
-          ref[n] = (ref[n] as Record<string, HCLValue>) || {};
-          ref = ref[n] as Record<string, HCLValue>;
+  function recover(
+    start: number,
+    err: HCLParseError,
+    closing: string | undefined,
+    inObject: boolean,
+  ) {
+    let failed = tokens.findIndex((t) => t.loc.offset >= err.loc.offset);
+    if (failed === -1) failed = tokens.length;
+
+    let depth = 0;
+    for (pos = start; pos < tokens.length; pos++) {
+      const { token, leading } = cstTokens[pos]!;
+      if (pos > start && pos >= failed) {
+        if (depth === 0 && closing && isSymbol(token, closing)) return;
+        if (depth === 0 && inObject && isSymbol(token, ",")) {
+          pos++;
+          return;
         }
+        const newline = leading.some((t) => t.kind === "newline");
+        if (pos > failed && depth <= 0 && newline) return;
       }
-      if (names.length > 0) {
-        const lastName = names[names.length - 1];
-        if (lastName) ref[lastName] = value;
-      } else {
-        Object.assign(ref, value);
+      if (["{", "[", "("].some((v) => isSymbol(token, v))) depth++;
+      if (["}", "]", ")"].some((v) => isSymbol(token, v))) depth--;
+    }
+  }
+
+  /**
+   * Parses a body of attributes and blocks, intermixed in any order.
+   *
+   * A malformed item is recorded in `errors` and skipped, so that one run
+   * reports every problem in the file.
+   *
+   * @param closing - Token value that ends the body (omit for the root body)
+   * @param inObject - Whether the body is an object literal
+   * @returns Concrete body with parsed attributes and blocks
+   */
+  function parseBody(closing?: string, inObject = false): CSTBody {
+    const items: (CSTAttribute | CSTBlock)[] = [];
+    while (peek() && !(closing && isSymbol(peek(), closing))) {
+      const start = pos;
+      const leading = takeComments(peek()!.loc.offset);
+      try {
+        items.push(parseItem(leading, inObject));
+        // Object literal items may be separated by commas
+        if (inObject && isSymbol(peek(), ",")) consume("symbol", ",");
+      } catch (err) {
+        if (!(err instanceof HCLParseError)) throw err;
+        errors.push(err);
+        recover(start, err, closing, inObject);
       }
-      result[key] = curr;
     }
-    return result;
+    // Comments after the last item don't describe anything
+    const end = peek();
+    takeComments(end ? end.loc.offset : input.length);
+    return { items };
   }
 
-  return parseTopLevel();
+  const body = parseBody();
+  // An unknown character is also an unexpected token to the parser; the
+  // scanner's error says more
+  const lexical = new Set(scanned.errors.map((err) => err.loc.offset));
+  errors.splice(
+    0,
+    errors.length,
+    ...scanned.errors,
+    ...errors.filter((err) => !lexical.has(err.loc.offset)),
+  );
+  if (errors.length > 0) {
+    // Errors in nested bodies are found before those of their parent item
+    errors.sort((a, b) => a.loc.offset - b.loc.offset);
+    throw HCLErrorList.of(errors);
+  }
+  return { body, trailing };
 }
@@ -0,0 +1,229 @@
+import type { Expression, TemplatePart } from "./ast";
+
+/**
+ * Flat template element, before directives are nested and strip markers applied.
+ */
+type Segment =
+  | { kind: "text"; value: string }
+  | {
+      kind: "interpolation" | "directive";
+      source: string;
+      stripLeft: boolean;
+      stripRight: boolean;
+    };
+
+/**
+ * Checks whether a string contains template sequences (`${`, `%{`, or their
+ * `$${` / `%%{` escapes) and therefore needs to be parsed as a template.
+ *
+ * @param text - String literal value
+ * @returns true if the string must be parsed as a template
+ */
+export function hasTemplateSequences(text: string): boolean {
+  return /[$%]\{/.test(text);
+}
+
+/**
+ * Finds the `}` closing a template sequence, skipping nested braces and
+ * quoted strings inside the expression.
+ *
+ * @param text - Template text
+ * @param start - Index just after the opening `{`
+ * @returns Index of the closing brace, or -1 if there is none
+ */
+function findClosingBrace(text: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      // Skip over a quoted string, honouring backslash escapes
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === "\\") i++;
+      }
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}" && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Splits template text into literal text and `${...}` / `%{...}` sequences.
+ *
+ * @param text - Template text
+ * @param fail - Called with a message when the template is malformed
+ * @returns Flat list of segments in source order
+ */
+function scanTemplate(
+  text: string,
+  fail: (message: string) => never,
+): Segment[] {
+  const segments: Segment[] = [];
+  let literal = "";
+  let i = 0;
+
+  while (i < text.length) {
+    const pair = text.slice(i, i + 3);
+    if (pair === "$${" || pair === "%%{") {
+      // Escaped sequence, emitted literally without the doubled character
+      literal += pair.slice(1);
+      i += 3;
+      continue;
+    }
+
+    const opener = text.slice(i, i + 2);
+    if (opener !== "${" && opener !== "%{") {
+      literal += text[i];
+      i++;
+      continue;
+    }
+
+    const close = findClosingBrace(text, i + 2);
+    if (close === -1) fail(`Unterminated template sequence '${opener}'`);
+
+    let source = text.slice(i + 2, close);
+    const stripLeft = source.startsWith("~");
+    const stripRight =
+      source.endsWith("~") && source.length > (stripLeft ? 1 : 0);
+    if (stripLeft) source = source.slice(1);
+    if (stripRight) source = source.slice(0, -1);
+
+    if (literal) segments.push({ kind: "text", value: literal });
+    literal = "";
+    segments.push({
+      kind: opener === "${" ? "interpolation" : "directive",
+      source: source.trim(),
+      stripLeft,
+      stripRight,
+    });
+    i = close + 1;
+  }
+
+  if (literal) segments.push({ kind: "text", value: literal });
+
+  // Strip markers remove whitespace, including newlines, next to the sequence
+  segments.forEach((segment, index) => {
+    if (segment.kind === "text") return;
+    const before = segments[index - 1];
+    const after = segments[index + 1];
+    if (segment.stripLeft && before?.kind === "text") {
+      before.value = before.value.trimEnd();
+    }
+    if (segment.stripRight && after?.kind === "text") {
+      after.value = after.value.trimStart();
+    }
+  });
+
+  return segments;
+}
+
+/**
+ * Parses a template string into literal text, interpolations and directives.
+ *
+ * Supports:
+ * - Interpolations: `${expr}`
+ * - Conditionals: `%{ if cond }...%{ else }...%{ endif }`
+ * - Loops: `%{ for item in list }...%{ endfor }` and `%{ for key, value in map }`
+ * - Strip markers: `${~ expr ~}` and `%{~ if cond ~}` trim adjacent whitespace
+ * - Escapes: `$${` and `%%{` produce literal `${` and `%{`
+ *
+ * @param text - Template text (a string literal or heredoc value)
+ * @param parseExpression - Parses the expression source inside a sequence
+ * @param fail - Called with a message when the template is malformed
+ * @returns Template parts with nested directive bodies
+ *
+ * @example
+ * ```typescript
+ * parseTemplate("Hello, ${var.name}!", parse, fail);
+ * // [{ kind: "text", value: "Hello, " }, { kind: "interpolation", expr }, { kind: "text", value: "!" }]
+ * ```
+ */
+export function parseTemplate(
+  text: string,
+  parseExpression: (source: string) => Expression,
+  fail: (message: string) => never,
+): TemplatePart[] {
+  const segments = scanTemplate(text, fail);
+  let pos = 0;
+
+  /**
+   * Parses parts until one of the given directive keywords is reached.
+   * @param terminators - Directive keywords ending this sequence of parts
+   * @returns The parsed parts and the keyword that ended them
+   */
+  function parseParts(terminators: string[]): {
+    parts: TemplatePart[];
+    end?: string;
+  } {
+    const parts: TemplatePart[] = [];
+
+    while (pos < segments.length) {
+      const segment = segments[pos++]!;
+
+      if (segment.kind === "text") {
+        if (segment.value) parts.push(segment);
+        continue;
+      }
+
+      if (segment.kind === "interpolation") {
+        if (!segment.source) fail("Empty template interpolation");
+        parts.push({
+          kind: "interpolation",
+          expr: parseExpression(segment.source),
+        });
+        continue;
+      }
+
+      const keyword = segment.source.split(/\s+/)[0] ?? "";
+      const rest = segment.source.slice(keyword.length).trim();
+
+      if (terminators.includes(keyword)) {
+        if (rest) fail(`Unexpected content after '${keyword}': ${rest}`);
+        return { parts, end: keyword };
+      }
+
+      if (keyword === "if") {
+        if (!rest) fail("Missing condition in 'if' directive");
+        const condition = parseExpression(rest);
+        const then = parseParts(["else", "endif"]);
+        const otherwise =
+          then.end === "else" ? parseParts(["endif"]).parts : [];
+        parts.push({
+          kind: "if",
+          condition,
+          then: then.parts,
+          else: otherwise,
+        });
+        continue;
+      }
+
+      if (keyword === "for") {
+        const header = rest.match(
+          /^([A-Za-z_][A-Za-z0-9_-]*)(?:\s*,\s*([A-Za-z_][A-Za-z0-9_-]*))?\s+in\s+([\s\S]+)$/,
+        );
+        if (!header) fail(`Invalid 'for' directive: ${segment.source}`);
+        const [, first, second, source] = header;
+        const collection = parseExpression(source!);
+        const body = parseParts(["endfor"]);
+        parts.push({
+          kind: "for",
+          keyVar: second ? first : undefined,
+          valueVar: (second ?? first)!,
+          collection,
+          body: body.parts,
+        });
+        continue;
+      }
+
+      fail(`Unexpected template directive '${keyword}'`);
+    }
+
+    const expected = terminators[terminators.length - 1];
+    if (expected) fail(`Missing '%{ ${expected} }' directive`);
+    return { parts };
+  }
+
+  return parseParts([]).parts;
+}
@@ -0,0 +1,283 @@
+import type { Expression } from "./ast";
+import type { SourceLocation } from "./lexer";
+import type { HCLValue } from "./parser";
+import { deepEqual, isObject, typeName } from "./values";
+
+/**
+ * A type constraint declared by a `variable` block's `type` attribute, such
+ * as `string`, `list(number)` or `object({ name = string })`.
+ */
+export type TypeConstraint =
+  | { kind: "any" | "string" | "number" | "bool" }
+  | { kind: "list" | "set" | "map"; element: TypeConstraint }
+  | {
+      kind: "object";
+      attributes: Record<string, TypeConstraint>;
+      /** Attributes declared with `optional(...)`, which default to null */
+      optional: string[];
+    }
+  | { kind: "tuple"; elements: TypeConstraint[] };
+
+/**
+ * Error raised for a malformed type constraint, or a value that does not
+ * conform to one. `loc` points into the constraint, when known.
+ */
+export class TypeConstraintError extends Error {
+  readonly loc?: SourceLocation;
+
+  constructor(message: string, loc?: SourceLocation) {
+    super(message);
+    this.name = "TypeConstraintError";
+    this.loc = loc;
+  }
+}
+
+/**
+ * Type keywords that take no arguments.
+ */
+const PRIMITIVES = ["any", "string", "number", "bool"] as const;
+
+/**
+ * Type keywords that take an element type, e.g. `list(string)`.
+ */
+const COLLECTIONS = ["list", "set", "map"] as const;
+
+/**
+ * Reads a type constraint from the expression it is written as. Bare
+ * `list`, `set` and `map` mean a collection of `any`, and the quoted forms
+ * `"string"`, `"list"` and `"map"` of older HCL are accepted too.
+ *
+ * @param expr - Value of a `type` attribute
+ * @returns The type constraint
+ * @throws TypeConstraintError if the expression is not a type
+ *
+ * @example
+ * ```typescript
+ * parseTypeConstraint(expr); // for `map(number)`
+ * // { kind: "map", element: { kind: "number" } }
+ * ```
+ */
+export function parseTypeConstraint(expr: Expression): TypeConstraint {
+  const keyword = (name: string): TypeConstraint | undefined => {
+    if ((PRIMITIVES as readonly string[]).includes(name)) {
+      return { kind: name as (typeof PRIMITIVES)[number] };
+    }
+    if ((COLLECTIONS as readonly string[]).includes(name)) {
+      return {
+        kind: name as (typeof COLLECTIONS)[number],
+        element: { kind: "any" },
+      };
+    }
+    return undefined;
+  };
+
+  if (expr.kind === "variable") {
+    const type = keyword(expr.name);
+    if (type) return type;
+    throw new TypeConstraintError(`Unknown type '${expr.name}'`, expr.loc);
+  }
+
+  if (expr.kind === "literal" && typeof expr.value === "string") {
+    const type = keyword(expr.value);
+    if (type && type.kind !== "any" && type.kind !== "set") return type;
+  }
+
+  if (expr.kind === "call") {
+    const { name, args } = expr;
+    if (args.length !== 1 || expr.expandFinal) {
+      throw new TypeConstraintError(
+        `Type '${name}' expects one argument, got ${args.length}`,
+        expr.loc,
+      );
+    }
+    const [arg] = args as [Expression];
+
+    if ((COLLECTIONS as readonly string[]).includes(name)) {
+      return {
+        kind: name as (typeof COLLECTIONS)[number],
+        element: parseTypeConstraint(arg),
+      };
+    }
+
+    if (name === "object" && arg.kind === "object") {
+      const attributes: Record<string, TypeConstraint> = {};
+      const optional: string[] = [];
+      for (const item of arg.body.items) {
+        if (item.type !== "attribute" || item.key) {
+          throw new TypeConstraintError(
+            "Object type attributes must be written as name = type",
+            item.loc,
+          );
+        }
+        let value = item.expr;
+        if (value.kind === "call" && value.name === "optional") {
+          if (value.args.length !== 1) {
+            throw new TypeConstraintError(
+              `Type 'optional' expects one argument, got ${value.args.length}`,
+              value.loc,
+            );
+          }
+          optional.push(item.name);
+          value = value.args[0]!;
+        }
+        attributes[item.name] = parseTypeConstraint(value);
+      }
+      return { kind: "object", attributes, optional };
+    }
+
+    if (name === "tuple" && arg.kind === "tuple") {
+      return { kind: "tuple", elements: arg.items.map(parseTypeConstraint) };
+    }
+
+    if (name === "object" || name === "tuple") {
+      const shape =
+        name === "object" ? "an object of types" : "a list of types";
+      throw new TypeConstraintError(`Type '${name}' expects ${shape}`, arg.loc);
+    }
+    throw new TypeConstraintError(`Unknown type '${name}'`, expr.loc);
+  }
+
+  throw new TypeConstraintError(
+    "Expected a type such as string, list(number) or object({ ... })",
+    expr.loc,
+  );
+}
+
+/**
+ * Writes a type constraint the way it is declared in HCL.
+ *
+ * @param type - Type constraint
+ * @returns HCL type expression, e.g. `list(number)`
+ */
+export function formatType(type: TypeConstraint): string {
+  switch (type.kind) {
+    case "list":
+    case "set":
+    case "map":
+      return `${type.kind}(${formatType(type.element)})`;
+    case "object": {
+      const attributes = Object.entries(type.attributes).map(([name, t]) => {
+        const text = formatType(t);
+        return `${name} = ${type.optional.includes(name) ? `optional(${text})` : text}`;
+      });
+      return `object({ ${attributes.join(", ")} })`;
+    }
+    case "tuple":
+      return `tuple([${type.elements.map(formatType).join(", ")}])`;
+    default:
+      return type.kind;
+  }
+}
+
+/**
+ * Converts a nested value, prefixing errors with where in the value they
+ * occurred.
+ * @param where - Description of the nested value, e.g. `element 2`
+ * @param convert - Performs the conversion
+ * @returns Converted value
+ */
+function within(where: string, convert: () => HCLValue): HCLValue {
+  try {
+    return convert();
+  } catch (err) {
+    if (!(err instanceof TypeConstraintError)) throw err;
+    throw new TypeConstraintError(`${where}: ${err.message}`);
+  }
+}
+
+/**
+ * Converts a value to a type constraint, applying HCL's automatic
+ * conversions: numbers and booleans to strings, numeric strings to numbers,
+ * `"true"` and `"false"` to booleans. Sets drop duplicate elements, and
+ * objects drop attributes their type does not declare. Null conforms to
+ * every type.
+ *
+ * @param value - Value to convert
+ * @param type - Type constraint to conform to
+ * @returns Converted value
+ * @throws TypeConstraintError describing the first mismatch
+ *
+ * @example
+ * ```typescript
+ * convertValue(["80", 443], { kind: "list", element: { kind: "number" } });
+ * // [80, 443]
+ * ```
+ */
+export function convertValue(value: HCLValue, type: TypeConstraint): HCLValue {
+  if (value === null) return null;
+
+  switch (type.kind) {
+    case "any":
+      return value;
+    case "string":
+      if (typeof value === "string") return value;
+      if (typeof value === "number" || typeof value === "boolean") {
+        return String(value);
+      }
+      break;
+    case "number":
+      if (typeof value === "number") return value;
+      if (typeof value === "string" && value.trim() !== "") {
+        const number = Number(value);
+        if (!Number.isNaN(number)) return number;
+      }
+      break;
+    case "bool":
+      if (typeof value === "boolean") return value;
+      if (value === "true" || value === "false") return value === "true";
+      break;
+    case "list":
+    case "set":
+      if (Array.isArray(value)) {
+        const items = value.map((item, i) =>
+          within(`element ${i}`, () => convertValue(item, type.element)),
+        );
+        if (type.kind === "list") return items;
+        return items.filter(
+          (item, i) => items.findIndex((other) => deepEqual(item, other)) === i,
+        );
+      }
+      break;
+    case "map":
+      if (isObject(value)) {
+        return Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [
+            key,
+            within(`key '${key}'`, () => convertValue(item, type.element)),
+          ]),
+        );
+      }
+      break;
+    case "object":
+      if (isObject(value)) {
+        const result: Record<string, HCLValue> = {};
+        for (const [key, attrType] of Object.entries(type.attributes)) {
+          if (Object.hasOwn(value, key)) {
+            result[key] = within(`attribute '${key}'`, () =>
+              convertValue(value[key]!, attrType),
+            );
+          } else if (type.optional.includes(key)) {
+            result[key] = null;
+          } else {
+            throw new TypeConstraintError(`attribute '${key}' is required`);
+          }
+        }
+        return result;
+      }
+      break;
+    case "tuple":
+      if (Array.isArray(value) && value.length === type.elements.length) {
+        return value.map((item, i) =>
+          within(`element ${i}`, () => convertValue(item, type.elements[i]!)),
+        );
+      }
+      break;
+  }
+
+  // Tuples can fail on length alone, so say how long the list was
+  const got =
+    type.kind === "tuple" && Array.isArray(value)
+      ? `list of ${value.length} ${value.length === 1 ? "element" : "elements"}`
+      : typeName(value);
+  throw new TypeConstraintError(`expected ${formatType(type)}, got ${got}`);
+}
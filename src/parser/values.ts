@@ -0,0 +1,44 @@
+import type { HCLValue } from "./parser";
+
+/**
+ * Checks whether a value is a plain (non-array) object.
+ * @param value - Value to check
+ * @returns true if the value is an object and not an array
+ */
+export function isObject(value: unknown): value is Record<string, HCLValue> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Describes the type of a value for error messages.
+ * @param value - Value to describe
+ * @returns Human-readable type name
+ */
+export function typeName(value: HCLValue): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "list";
+  return typeof value;
+}
+
+/**
+ * Compares two values structurally, as the `==` and `!=` operators do.
+ * @param a - First value
+ * @param b - Second value
+ * @returns true if both values have the same type and contents
+ */
+export function deepEqual(a: HCLValue, b: HCLValue): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, i) => deepEqual(item, b[i]!))
+    );
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && deepEqual(a[key]!, b[key]!))
+    );
+  }
+  return false;
+}
@@ -2,30 +2,32 @@ import { z } from "zod";
 
 /**
  * Zod schema for validating HCL identifier strings.
- * Matches valid HCL identifiers: starts with letter or underscore, followed by letters, numbers, or underscores.
+ * Matches valid HCL identifiers: starts with letter or underscore, followed by letters, numbers, underscores, or hyphens.
  */
-const hclIdentifierSchema = z.string().regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/);
+const hclIdentifierSchema = z.string().regex(/^[a-zA-Z_][a-zA-Z0-9_-]*$/);
 
 /**
  * Generic Zod schema for validating HCL structures.
- * 
+ *
  * This schema is designed to be flexible and accommodate various HCL use cases
  * including Terraform, Kubernetes, Helm, CloudFormation, and custom configurations.
- * 
+ *
  * Features:
- * - Accepts any valid HCL identifier as property names
- * - Supports all common HCL value types (objects, strings, numbers, booleans, arrays)
+ * - Requires identifiers only for root keys, which are attribute names or
+ *   block types; nested keys may be block labels or object keys such as
+ *   `"app.kubernetes.io/name"`, which can be any string
+ * - Supports all common HCL value types (objects, strings, numbers, booleans, null, arrays)
  * - Allows unlimited nesting depth
  * - No required fields for maximum flexibility
- * 
+ *
  * @example
  * ```typescript
  * // Validates Terraform resources
  * { resource: { aws_instance: { web: { ami: "ami-123" } } } }
- * 
+ *
  * // Validates Kubernetes manifests
  * { apiVersion: "v1", kind: "Pod", metadata: { name: "my-pod" } }
- * 
+ *
  * // Validates Helm charts
  * { name: "my-chart", version: "1.0.0", apiVersion: "v2" }
  * ```
@@ -34,11 +36,26 @@ export const hclValueSchema: z.ZodType<unknown> = z.union([
   z.string(),
   z.number(),
   z.boolean(),
+  z.null(),
   z.array(z.lazy(() => hclValueSchema)),
-  z.record(hclIdentifierSchema, z.lazy(() => hclValueSchema)),
+  // Not z.record, which rejects objects with a `constructor` key
+  z.object({}).catchall(z.lazy(() => hclValueSchema)),
 ]);
 
-export const hclSchema = z.record(hclIdentifierSchema, hclValueSchema);
+export const hclSchema = z
+  .object({})
+  .catchall(hclValueSchema)
+  .superRefine((data, ctx) => {
+    for (const key of Object.keys(data)) {
+      if (!hclIdentifierSchema.safeParse(key).success) {
+        ctx.addIssue({
+          code: "custom",
+          path: [key],
+          message: "Invalid key: root keys must be identifiers",
+        });
+      }
+    }
+  });
 
 // Export the main schema for backward compatibility
 export const HCL_SCHEMA = hclSchema;
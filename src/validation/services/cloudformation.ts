@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { SchemaValidationError } from "../validator";
 
 /**
  * CloudFormation-specific schema for validating HCL structures.
@@ -22,9 +23,61 @@ const cfnValue: z.ZodType<unknown> = z.union([
   z.number(),
   z.boolean(),
   z.array(z.lazy(() => cfnValue)),
-  z.record(z.string(), z.lazy(() => cfnValue)),
+  z.lazy(() => cfnObjectSchema),
 ]);
 
+// Object schema. An object whose only key is `Ref` or an `Fn::` function is
+// an intrinsic function call, and its arguments must have the right shape.
+// Not z.record, which rejects objects with a `constructor` key
+const cfnObjectSchema = z
+  .object({})
+  .catchall(cfnValue)
+  .superRefine((value, ctx) => {
+    const keys = Object.keys(value);
+    const key = keys.length === 1 ? keys[0]! : "";
+    if (!Object.hasOwn(intrinsicArgsSchemas, key)) {
+      if (key.startsWith("Fn::")) {
+        ctx.addIssue({
+          code: "custom",
+          path: [key],
+          message: `Unknown intrinsic function '${key}'`,
+        });
+      }
+      return;
+    }
+    const result = intrinsicArgsSchemas[key]!.safeParse(value[key]);
+    for (const issue of result.error?.issues ?? []) {
+      ctx.addIssue({
+        code: "custom",
+        message: issue.message,
+        path: [key, ...issue.path],
+      });
+    }
+  });
+
+// Arguments of each intrinsic function, by its long-form key
+const intrinsicArgsSchemas: Record<string, z.ZodType> = {
+  Ref: z.string(),
+  "Fn::GetAtt": z.union([z.tuple([z.string(), cfnValue]), z.string()]),
+  "Fn::Sub": z.union([
+    z.string(),
+    z.tuple([z.string(), z.record(z.string(), cfnValue)]),
+  ]),
+  "Fn::Join": z.tuple([z.string(), cfnValue]),
+  "Fn::Split": z.tuple([z.string(), cfnValue]),
+  "Fn::If": z.tuple([z.string(), cfnValue, cfnValue]),
+  "Fn::Select": z.tuple([cfnValue, cfnValue]),
+  "Fn::GetAZs": cfnValue,
+  "Fn::ImportValue": cfnValue,
+  "Fn::FindInMap": z.tuple([cfnValue, cfnValue, cfnValue]),
+  "Fn::Base64": cfnValue,
+  "Fn::Cidr": z.tuple([cfnValue, cfnValue, cfnValue]),
+  "Fn::Equals": z.tuple([cfnValue, cfnValue]),
+  "Fn::And": z.array(cfnValue).min(2).max(10),
+  "Fn::Or": z.array(cfnValue).min(2).max(10),
+  "Fn::Not": z.tuple([cfnValue]),
+};
+
 // Parameter schema
 const cfnParameterSchema = z.object({
   Type: z.string(),
@@ -92,7 +145,7 @@ export type CloudFormationTemplate = z.infer<typeof cloudFormationSchema>;
  * Validates CloudFormation HCL data against the CloudFormation schema.
  *
  * @param data - Parsed HCL data to validate
- * @throws Error with detailed validation messages if validation fails
+ * @throws SchemaValidationError listing every issue if validation fails
  *
  * @example
  * ```typescript
@@ -112,10 +165,7 @@ export type CloudFormationTemplate = z.infer<typeof cloudFormationSchema>;
 export function validateCloudFormation(data: unknown): void {
   const result = cloudFormationSchema.safeParse(data);
   if (!result.success) {
-    const errors = result.error.issues
-      .map((e) => `${e.path.join(".")}: ${e.message}`)
-      .join("\n");
-    throw new Error(`CloudFormation validation failed:\n${errors}`);
+    throw new SchemaValidationError("CloudFormation", result.error);
   }
 }
 
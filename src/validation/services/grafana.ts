@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { SchemaValidationError } from "../validator";
 
 /**
  * Grafana dashboard schema for validating HCL structures.
@@ -36,8 +37,8 @@ const targetSchema = z.object({
   intervalFactor: z.number().optional(),
 });
 
-// Panel schema
-const panelSchema = z.object({
+// Panel schema. Rows (`type = "row"`) hold their panels while collapsed
+const panelSchema: z.ZodType<unknown> = z.object({
   id: z.number().optional(),
   type: z.string(),
   title: z.string(),
@@ -51,6 +52,8 @@ const panelSchema = z.object({
   links: z.array(grafanaValue).optional(),
   repeat: z.string().optional(),
   repeatDirection: z.enum(["h", "v"]).optional(),
+  collapsed: z.boolean().optional(),
+  panels: z.array(z.lazy(() => panelSchema)).optional(),
 });
 
 // Template variable schema
@@ -85,6 +88,23 @@ const timeSchema = z.object({
   to: z.string(),
 });
 
+// Width of the dashboard grid, in columns
+export const GRID_WIDTH = 24;
+
+// Layout schema: how panels without a position are placed. Panels are
+// `columns` to a line, each `height` grid units tall
+export const grafanaLayoutSchema = z
+  .strictObject({
+    columns: z.number().int().min(1).max(GRID_WIDTH).default(2),
+    height: z.number().int().min(1).default(8),
+  })
+  .transform((layout) => ({
+    ...layout,
+    width: Math.floor(GRID_WIDTH / layout.columns),
+  }));
+
+export type GrafanaLayout = z.output<typeof grafanaLayoutSchema>;
+
 // Templating schema
 const templatingSchema = z.object({
   list: z.array(templateVarSchema).optional(),
@@ -123,6 +143,10 @@ export const grafanaDashboardSchema = z.object({
       style: z.string().optional(),
     })
     .passthrough(), // Allow additional fields for flexibility
+  // Dashboard API envelope fields (POST /api/dashboards/db)
+  folderUid: z.string().optional(),
+  message: z.string().optional(),
+  overwrite: z.boolean().optional(),
 });
 
 export type GrafanaDashboard = z.infer<typeof grafanaDashboardSchema>;
@@ -131,7 +155,7 @@ export type GrafanaDashboard = z.infer<typeof grafanaDashboardSchema>;
  * Validates Grafana dashboard HCL data against the Grafana schema.
  *
  * @param data - Parsed HCL data to validate
- * @throws Error with detailed validation messages if validation fails
+ * @throws SchemaValidationError listing every issue if validation fails
  *
  * @example
  * ```typescript
@@ -150,10 +174,7 @@ export type GrafanaDashboard = z.infer<typeof grafanaDashboardSchema>;
 export function validateGrafana(data: unknown): void {
   const result = grafanaDashboardSchema.safeParse(data);
   if (!result.success) {
-    const errors = result.error.issues
-      .map((e) => `${e.path.join(".")}: ${e.message}`)
-      .join("\n");
-    throw new Error(`Grafana dashboard validation failed:\n${errors}`);
+    throw new SchemaValidationError("Grafana dashboard", result.error);
   }
 }
 
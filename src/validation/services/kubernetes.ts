@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { SchemaValidationError } from "../validator";
 
 /**
  * Kubernetes manifest schema for validating HCL structures.
@@ -40,7 +41,7 @@ const metadataSchema = z.object({
   uid: z.string().optional(),
   resourceVersion: z.string().optional(),
   generation: z.number().optional(),
-  creationTimestamp: z.string().optional(),
+  creationTimestamp: z.string().nullable().optional(),
 });
 
 // Container port schema
@@ -190,16 +191,84 @@ export const kubernetesSchema = z.union([
   deploymentSchema,
   serviceSchema,
   k8sResourceSchema,
-  z.record(z.string(), z.union([deploymentSchema, serviceSchema, k8sResourceSchema])),
 ]);
 
 export type KubernetesResource = z.infer<typeof kubernetesSchema>;
 
+// Schemas of the kinds checked in detail; other kinds use the generic one
+const resourceSchemas: Record<string, z.ZodType> = {
+  Deployment: deploymentSchema,
+  Service: serviceSchema,
+};
+
+/**
+ * A resource of a Kubernetes bundle, with the keys it was written under.
+ */
+export interface KubernetesDocument {
+  /** Keys leading to the resource, e.g. `["Service", "web"]`; empty when the whole file is one resource */
+  path: (string | number)[];
+  resource: unknown;
+}
+
+// Checks for a plain object
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Splits Kubernetes data into the resources it holds, in source order. A
+ * file is either a single resource (`apiVersion` and `kind` at the top
+ * level) or a bundle of blocks such as `Deployment { ... }`, where:
+ * - a repeated block (a list) holds one resource per element
+ * - a labeled block (`Service "web" { ... }`) holds one resource per label
+ * - any other block is a resource itself
+ *
+ * @param data - Parsed HCL data
+ * @returns The resources, each with the keys it was found under
+ *
+ * @example
+ * ```typescript
+ * kubernetesDocuments({ Namespace: ns, Service: { web: svc, api: svc2 } });
+ * // [{ path: ["Namespace"], resource: ns },
+ * //  { path: ["Service", "web"], resource: svc },
+ * //  { path: ["Service", "api"], resource: svc2 }]
+ * ```
+ */
+export function kubernetesDocuments(data: unknown): KubernetesDocument[] {
+  if (!isRecord(data) || "apiVersion" in data || "kind" in data) {
+    return [{ path: [], resource: data }];
+  }
+
+  const documents: KubernetesDocument[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    const labeled =
+      isRecord(value) &&
+      !("kind" in value) &&
+      Object.keys(value).length > 0 &&
+      Object.values(value).every((v) => isRecord(v) && "kind" in v);
+
+    if (Array.isArray(value)) {
+      value.forEach((resource, i) => documents.push({ path: [key, i], resource }));
+    } else if (labeled) {
+      for (const [label, resource] of Object.entries(value)) {
+        documents.push({ path: [key, label], resource });
+      }
+    } else {
+      documents.push({ path: [key], resource: value });
+    }
+  }
+  return documents;
+}
+
 /**
  * Validates Kubernetes manifest HCL data against the Kubernetes schema.
  *
+ * Each resource (see `kubernetesDocuments`) is validated on its own, against
+ * the schema of its kind, and issue paths start with the keys it was
+ * written under, such as `Deployment.spec.template`.
+ *
  * @param data - Parsed HCL data to validate
- * @throws Error with detailed validation messages if validation fails
+ * @throws SchemaValidationError listing every issue if validation fails
  *
  * @example
  * ```typescript
@@ -230,12 +299,21 @@ export type KubernetesResource = z.infer<typeof kubernetesSchema>;
  * ```
  */
 export function validateKubernetes(data: unknown): void {
-  const result = kubernetesSchema.safeParse(data);
-  if (!result.success) {
-    const errors = result.error.issues
-      .map((e) => `${e.path.join(".")}: ${e.message}`)
-      .join("\n");
-    throw new Error(`Kubernetes validation failed:\n${errors}`);
+  const issues: z.core.$ZodIssue[] = [];
+  for (const { path, resource } of kubernetesDocuments(data)) {
+    const kind = isRecord(resource) ? String(resource.kind) : "";
+    const schema = Object.hasOwn(resourceSchemas, kind)
+      ? resourceSchemas[kind]!
+      : k8sResourceSchema;
+    const result = schema.safeParse(resource);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        issues.push({ ...issue, path: [...path, ...issue.path] });
+      }
+    }
+  }
+  if (issues.length > 0) {
+    throw new SchemaValidationError("Kubernetes", new z.ZodError(issues));
   }
 }
 
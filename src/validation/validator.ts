@@ -1,12 +1,49 @@
-import { ZodError } from "zod";
+import type { ZodError } from "zod";
 import { hclSchema } from "./schema";
 import type { HCLValue } from "../parser/parser";
 
+/**
+ * A single schema violation.
+ */
+export interface ValidationIssue {
+  /** Dotted path of the offending value, such as `Resources.Bucket.Type` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Error thrown when data does not match a schema. Carries every issue Zod
+ * found, so all of them can be reported at once.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   validateKubernetes(data);
+ * } catch (err) {
+ *   if (err instanceof SchemaValidationError) err.issues.length;
+ * }
+ * ```
+ */
+export class SchemaValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(schema: string, error: ZodError) {
+    const issues = error.issues.map((e) => ({
+      path: e.path.join("."),
+      message: e.message,
+    }));
+    const lines = issues.map((e) => `${e.path}: ${e.message}`).join("\n");
+    super(`${schema} validation failed:\n${lines}`);
+    this.name = "SchemaValidationError";
+    this.issues = issues;
+  }
+}
+
 /**
  * Validates HCL data against the generic HCL schema using Zod.
  *
  * @param data - The parsed HCL data to validate
- * @throws Error if validation fails with detailed error messages
+ * @throws SchemaValidationError listing every issue if validation fails
  *
  * @example
  * ```typescript
@@ -21,9 +58,6 @@ import type { HCLValue } from "../parser/parser";
 export function validateHCL(data: Record<string, HCLValue>): void {
   const result = hclSchema.safeParse(data);
   if (!result.success) {
-    const errors = (result.error as ZodError).issues
-      .map((e) => `${e.path.join('.')}: ${e.message}`)
-      .join("\n");
-    throw new Error(`Schema validation failed:\n${errors}`);
+    throw new SchemaValidationError("Schema", result.error);
   }
 }
@@ -0,0 +1,193 @@
+import { test, expect, describe } from "bun:test";
+import { parseHCL } from "../src/parser/parser";
+import type { HCLParseError } from "../src/parser/errors";
+
+/**
+ * Parses `value = <expr>` alongside the given locals and returns the value.
+ */
+function evaluate(expr: string, locals = ""): unknown {
+  return parseHCL(`locals {\n${locals}\n}\nvalue = ${expr}`).value;
+}
+
+describe("Expressions", () => {
+  describe("References", () => {
+    test("resolves locals without interpolation", () => {
+      expect(evaluate("local.port", "port = 8080")).toBe(8080);
+    });
+
+    test("traverses attributes and indexes", () => {
+      const locals = `
+        db = {
+          hosts = ["a", "b"]
+          primary = { name = "main" }
+        }
+      `;
+      expect(evaluate("local.db.hosts[1]", locals)).toBe("b");
+      expect(evaluate("local.db.primary.name", locals)).toBe("main");
+      expect(evaluate('local.db["primary"]["name"]', locals)).toBe("main");
+    });
+
+    test("applies splats to every element", () => {
+      const locals = `users = [{ name = "a" }, { name = "b" }]`;
+      expect(evaluate("local.users[*].name", locals)).toEqual(["a", "b"]);
+      expect(evaluate("local.users.*.name", locals)).toEqual(["a", "b"]);
+    });
+
+    test("splats a single value into a list and null into an empty list", () => {
+      expect(evaluate("local.one[*].id", "one = { id = 1 }")).toEqual([1]);
+      expect(evaluate("local.none[*].id", "none = null")).toEqual([]);
+    });
+
+    test("reports unknown variables", () => {
+      expect(() => evaluate("missing.name")).toThrow(
+        "Unknown variable 'missing'",
+      );
+    });
+  });
+
+  describe("Operators", () => {
+    test("evaluates arithmetic with precedence", () => {
+      expect(evaluate("1 + 2 * 3")).toBe(7);
+      expect(evaluate("(1 + 2) * 3")).toBe(9);
+      expect(evaluate("10 - 4 - 3")).toBe(3);
+      expect(evaluate("7 % 4")).toBe(3);
+      expect(evaluate("-local.n * 2", "n = 5")).toBe(-10);
+    });
+
+    test("reads a negative literal after an operand as subtraction", () => {
+      expect(evaluate("local.n -1", "n = 5")).toBe(4);
+      expect(evaluate("[1, -1]")).toEqual([1, -1]);
+    });
+
+    test("keeps negative literals as separate tuple items", () => {
+      expect(evaluate("[1 -1]")).toEqual([1, -1]);
+      expect(evaluate("[local.n -1 2]", "n = 5")).toEqual([5, -1, 2]);
+      expect(evaluate("[(local.n -1), max(local.n -1, 0)]", "n = 5")).toEqual([
+        4, 4,
+      ]);
+    });
+
+    test("converts numeric strings in arithmetic", () => {
+      expect(evaluate('"3" * 2')).toBe(6);
+      expect(() => evaluate('"abc" + 1')).toThrow(
+        "Expected a number, got string",
+      );
+    });
+
+    test("rejects division by zero", () => {
+      expect(() => evaluate("1 / 0")).toThrow("Division by zero");
+    });
+
+    test("compares values", () => {
+      expect(evaluate("2 < 3 && 3 >= 3")).toBe(true);
+      expect(evaluate('"a" == "a"')).toBe(true);
+      expect(evaluate("[1, { a = 2 }] == [1, { a = 2 }]")).toBe(true);
+      expect(evaluate('1 == "1"')).toBe(false);
+      expect(evaluate("!true || 1 != 1")).toBe(false);
+    });
+
+    test("short-circuits logical operators", () => {
+      expect(evaluate("false && local.missing", "")).toBe(false);
+      expect(evaluate("true || local.missing", "")).toBe(true);
+    });
+
+    test("requires boolean operands for logical operators", () => {
+      expect(() => evaluate("1 && true")).toThrow(
+        "Operand of '&&' must be a boolean, got number",
+      );
+    });
+  });
+
+  describe("Conditionals", () => {
+    test("chooses a branch", () => {
+      expect(evaluate('local.prod ? "large" : "small"', "prod = true")).toBe(
+        "large",
+      );
+      expect(evaluate("1 > 2 ? 1 : 2 > 1 ? 2 : 3")).toBe(2);
+    });
+
+    test("evaluates only the chosen branch", () => {
+      expect(evaluate("true ? 1 : local.missing")).toBe(1);
+    });
+
+    test("rejects non-boolean conditions", () => {
+      expect(() => evaluate('"yes" ? 1 : 2')).toThrow(
+        "Condition must be a boolean, got string",
+      );
+    });
+  });
+
+  describe("For expressions", () => {
+    test("builds tuples", () => {
+      expect(evaluate("[for n in [1, 2, 3] : n * 2]")).toEqual([2, 4, 6]);
+      expect(evaluate('[for i, s in ["a", "b"] : "${i}=${s}"]')).toEqual([
+        "0=a",
+        "1=b",
+      ]);
+    });
+
+    test("builds objects", () => {
+      expect(
+        evaluate('{for s in ["a", "b"] : s => local.upper}', 'upper = "X"'),
+      ).toEqual({
+        a: "X",
+        b: "X",
+      });
+      expect(
+        evaluate("{for k, v in local.m : v => k}", "m = {\na = 1\nb = 2\n}"),
+      ).toEqual({
+        "1": "a",
+        "2": "b",
+      });
+    });
+
+    test("filters with if", () => {
+      expect(evaluate("[for n in [1, 2, 3, 4] : n if n % 2 == 0]")).toEqual([
+        2, 4,
+      ]);
+    });
+
+    test("groups values with ...", () => {
+      const locals = `
+        users = [
+          { role = "admin" name = "a" },
+          { role = "dev" name = "b" },
+          { role = "admin" name = "c" },
+        ]
+      `;
+      expect(
+        evaluate("{for u in local.users : u.role => u.name...}", locals),
+      ).toEqual({ admin: ["a", "c"], dev: ["b"] });
+    });
+
+    test("rejects duplicate keys without grouping", () => {
+      expect(() => evaluate('{for s in ["a", "a"] : s => 1}')).toThrow(
+        "Duplicate key 'a' in for expression",
+      );
+    });
+
+    test("treats keys named like Object.prototype members as plain keys", () => {
+      expect(
+        evaluate('{for s in ["toString", "__proto__"] : s => 1...}'),
+      ).toEqual({ toString: [1], ["__proto__"]: [1] });
+      expect(evaluate('{for s in ["constructor"] : s => 1}')).toEqual({
+        constructor: 1,
+      });
+      expect(() => evaluate("local.m.constructor", "m = { a = 1 }")).toThrow(
+        "Object has no attribute 'constructor'",
+      );
+    });
+
+    test("reports the location of errors in nested expressions", () => {
+      try {
+        parseHCL("value = [for n in [1] : n / 0]", { file: "main.hcl" });
+        throw new Error("expected an error");
+      } catch (err) {
+        expect((err as HCLParseError).loc).toMatchObject({
+          line: 1,
+          column: 29,
+        });
+      }
+    });
+  });
+});
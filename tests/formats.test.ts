@@ -0,0 +1,258 @@
+import { test, expect, describe, afterAll } from "bun:test";
+import { parseHCL } from "../src/parser/parser";
+import {
+  formatForPath,
+  formatNames,
+  getFormat,
+  registerFormat,
+  writeOutput,
+} from "../src/converters/formats";
+import { toHCLJSON, toJSON } from "../src/converters/json";
+import { toTOML } from "../src/converters/toml";
+import {
+  type WriteOptions,
+  toYAML,
+  toYAMLStream,
+} from "../src/converters/converter";
+import { loadConfig } from "../src/config/config";
+import { SchemaValidationError } from "../src/validation/validator";
+import yaml from "js-yaml";
+
+describe("Output formats", () => {
+  describe("Registry", () => {
+    const testOutputPath = "/tmp/test-output.json";
+
+    afterAll(async () => {
+      await Bun.file(testOutputPath)
+        .delete()
+        .catch(() => {});
+    });
+
+    test("registers the built-in formats", () => {
+      expect(formatNames()).toEqual(["yaml", "json", "hcl-json", "toml"]);
+      expect(getFormat("toml")?.options).toEqual(["keepComments"]);
+    });
+
+    test("picks the format from the longest matching extension", () => {
+      expect(formatForPath("out/stack.yml")).toBe("yaml");
+      expect(formatForPath("dashboard.json")).toBe("json");
+      expect(formatForPath("main.tf.json")).toBe("hcl-json");
+      expect(formatForPath("config.toml")).toBe("toml");
+      expect(formatForPath("notes.txt")).toBeUndefined();
+    });
+
+    test("rejects registering a name twice", () => {
+      expect(() =>
+        registerFormat("json", {
+          extensions: [],
+          options: [],
+          serialize: () => "",
+        }),
+      ).toThrow("Output format 'json' is already registered");
+    });
+
+    test("writes files in the named format", async () => {
+      await writeOutput({ a: [1] }, testOutputPath, "json", { indent: 0 });
+      expect(await Bun.file(testOutputPath).text()).toBe('{"a":[1]}\n');
+      await expect(writeOutput({}, testOutputPath, "xml")).rejects.toThrow(
+        "Unknown output format 'xml'",
+      );
+    });
+  });
+
+  describe("YAML styles", () => {
+    // Expected output is kept in tests/golden/yaml/<style>.yaml; run with
+    // UPDATE_GOLDEN=1 to rewrite the files after an intended change
+    const styles: Record<string, WriteOptions> = {
+      default: {},
+      "indent-4": { indent: 4 },
+      "line-width-40": { lineWidth: 40 },
+      "double-quotes": { quote: "double" },
+      "flow-arrays": { flowArrays: true },
+      "quoted-multiline": { multiline: "quoted" },
+      "document-start": { documentStart: true },
+      "comments-indent-4": { keepComments: true, indent: 4 },
+    };
+
+    for (const [style, options] of Object.entries(styles)) {
+      test(`writes the ${style} style`, async () => {
+        const source = await Bun.file("tests/golden/yaml/input.hcl").text();
+        const data = parseHCL(source);
+        const text = toYAML(data, options);
+
+        const golden = `tests/golden/yaml/${style}.yaml`;
+        if (process.env.UPDATE_GOLDEN) await Bun.write(golden, text);
+        expect(text).toBe(await Bun.file(golden).text());
+        expect(yaml.load(text)).toEqual(data);
+      });
+    }
+
+    test("writes each document of a stream with a start marker", () => {
+      const documents = [{ value: { a: 1 } }, { value: { a: 2 } }];
+      expect(toYAMLStream(documents, { documentStart: true })).toBe(
+        "---\na: 1\n---\na: 2\n",
+      );
+    });
+
+    test("keeps strings that look like value placeholders", () => {
+      const data = {
+        x: "__hcl_value_0__",
+        y: "a\nb",
+        z: ["__hcl_value_1_0__"],
+      };
+      for (const options of [{}, { flowArrays: true }]) {
+        expect(yaml.load(toYAML(data, options))).toEqual(data);
+      }
+    });
+
+    test("keeps block scalars valid at any depth", () => {
+      const data = { a: [["x\n  y\n", { b: " lead\n" }]] };
+      for (const indent of [1, 2, 3, 4]) {
+        expect(yaml.load(toYAML(data, { indent }))).toEqual(data);
+      }
+    });
+  });
+
+  describe("Config file", () => {
+    const configPath = "/tmp/test-config.hcl";
+
+    afterAll(async () => {
+      await Bun.file(configPath)
+        .delete()
+        .catch(() => {});
+    });
+
+    test("reads YAML settings from an HCL file", async () => {
+      await Bun.write(
+        configPath,
+        'yaml {\n  indent = 4\n  line_width = 100\n  quote = "double"\n}\n',
+      );
+      const { yaml } = await loadConfig(configPath);
+      expect(yaml).toMatchObject({
+        indent: 4,
+        lineWidth: 100,
+        quote: "double",
+      });
+      expect(yaml.flowArrays).toBeUndefined();
+    });
+
+    test("is optional unless a path is given", async () => {
+      expect(await loadConfig()).toEqual({ yaml: {} });
+      await expect(loadConfig("/tmp/missing-config.hcl")).rejects.toThrow(
+        "Config file does not exist: /tmp/missing-config.hcl",
+      );
+    });
+
+    test("rejects unknown and invalid settings", async () => {
+      await Bun.write(
+        configPath,
+        'yaml {\n  indent = "4"\n  colour = true\n}\n',
+      );
+      try {
+        await loadConfig(configPath);
+        throw new Error("expected a validation error");
+      } catch (err) {
+        expect(err).toBeInstanceOf(SchemaValidationError);
+        const { issues } = err as SchemaValidationError;
+        expect(issues.map((i) => i.path)).toEqual(["yaml.indent", "yaml"]);
+      }
+    });
+  });
+
+  describe("JSON", () => {
+    test("writes indented JSON", () => {
+      const data = parseHCL('web {\n  port = 80\n  tags = ["a"]\n}');
+      expect(toJSON(data)).toBe(
+        '{\n  "web": {\n    "port": 80,\n    "tags": [\n      "a"\n    ]\n  }\n}\n',
+      );
+      expect(toJSON(data, { indent: 0 })).toBe(
+        '{"web":{"port":80,"tags":["a"]}}\n',
+      );
+    });
+
+    test("rejects numbers JSON can't represent", () => {
+      expect(() => toJSON({ a: Infinity })).toThrow(
+        "Cannot write Infinity in JSON",
+      );
+    });
+
+    test("escapes template sequences in HCL-JSON", () => {
+      const data = parseHCL('value = "$${var.x} %%{if}"');
+      expect(toJSON(data, { indent: 0 })).toBe('{"value":"${var.x} %{if}"}\n');
+      expect(toHCLJSON(data, { indent: 0 })).toBe(
+        '{"value":"$${var.x} %%{if}"}\n',
+      );
+    });
+  });
+
+  describe("TOML", () => {
+    test("writes objects as tables after their key/value pairs", () => {
+      const data = parseHCL(`
+        app {
+          server {
+            port = 8080
+          }
+          name = "web"
+        }
+        debug = false
+      `);
+      expect(toTOML(data)).toBe(
+        'debug = false\n\n[app]\nname = "web"\n\n[app.server]\nport = 8080\n',
+      );
+      expect(Bun.TOML.parse(toTOML(data))).toEqual(data);
+    });
+
+    test("writes lists of objects as arrays of tables", () => {
+      const data = {
+        servers: [{ name: "a" }, { name: "b", ports: [80, 443] }],
+        mixed: [1, { x: "y" }, []],
+      };
+      const toml = toTOML(data);
+      expect(toml).toBe(
+        'mixed = [1, { x = "y" }, []]\n\n' +
+          '[[servers]]\nname = "a"\n\n' +
+          '[[servers]]\nname = "b"\nports = [80, 443]\n',
+      );
+      expect(Bun.TOML.parse(toml)).toEqual(data);
+    });
+
+    test("quotes keys and escapes strings", () => {
+      const data = {
+        "app.kubernetes.io/name": 'say "hi"\n',
+        labels: { "a b": "\t\u0001" },
+      };
+      const toml = toTOML(data);
+      expect(toml).toContain('"app.kubernetes.io/name" = "say \\"hi\\"\\n"');
+      expect(toml).toContain('[labels]\n"a b" = "\\t\\u0001"');
+      expect(Bun.TOML.parse(toml)).toEqual(data);
+    });
+
+    test("writes special floats", () => {
+      expect(toTOML({ a: NaN, b: Infinity, c: -Infinity, d: 1.5 })).toBe(
+        "a = nan\nb = inf\nc = -inf\nd = 1.5\n",
+      );
+    });
+
+    test("rejects null", () => {
+      expect(() => toTOML({ app: { tags: ["a", null] } })).toThrow(
+        "Cannot write null at 'app.tags.1' in TOML, which has no null value",
+      );
+    });
+
+    test("re-emits comments with keepComments", () => {
+      const data = parseHCL(`
+        # Service name
+        name = "web"
+
+        # Servers
+        server {
+          port = 80 # HTTP
+        }
+      `);
+      expect(toTOML(data, { keepComments: true })).toBe(
+        '# Service name\nname = "web"\n\n# Servers\n[server]\n# HTTP\nport = 80\n',
+      );
+      expect(toTOML(data)).not.toContain("#");
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { test, expect, describe } from "bun:test";
+import { readFileSync } from "node:fs";
+import { parseCST, parseHCL } from "../src/parser/parser";
+import { firstToken, printCST } from "../src/parser/cst";
+import { formatHCL } from "../src/formatter/formatter";
+import { parseDirective } from "../src/directives/parser";
+
+describe("Concrete syntax tree", () => {
+  test("prints back the exact source", () => {
+    const source = `# Header
+
+app "web"   {
+  name = "web" // trailing
+  /* block */ ports = [
+    80,
+    443,
+  ]
+  script = <<EOF
+  echo hi
+EOF
+}
+`;
+    expect(printCST(parseCST(source))).toBe(source);
+  });
+
+  test("round-trips the examples", () => {
+    const { cleanedInput } = parseDirective(
+      readFileSync("examples/cloudformation/s3-lambda.hcl", "utf-8"),
+    );
+    expect(printCST(parseCST(cleanedInput))).toBe(cleanedInput);
+  });
+
+  test("keeps trivia on each token", () => {
+    const document = parseCST("a = 1 # one\n\n\nb = 2\n");
+    const [, second] = document.body.items;
+    expect(firstToken(second!).leading.map((t) => t.kind)).toEqual([
+      "whitespace",
+      "comment",
+      "newline",
+      "newline",
+      "newline",
+    ]);
+    expect(document.trailing).toEqual([{ kind: "newline", text: "\n" }]);
+  });
+
+  test("derives the same values as before", () => {
+    expect(parseHCL('app "web" {\n  replicas = 1 + 2\n}')).toEqual({
+      app: { web: { replicas: 3 } },
+    });
+  });
+});
+
+describe("Formatter", () => {
+  test("indents blocks with two spaces", () => {
+    expect(formatHCL('app {\nname = "web"\n    db {\n port = 5432\n}\n}')).toBe(
+      'app {\n  name = "web"\n  db {\n    port = 5432\n  }\n}\n',
+    );
+  });
+
+  test("aligns = across consecutive attributes", () => {
+    expect(formatHCL("a = 1\nlonger = 2\n\nxy = 3\n")).toBe(
+      "a      = 1\nlonger = 2\n\nxy = 3\n",
+    );
+  });
+
+  test("aligns quoted keys", () => {
+    expect(
+      formatHCL('labels {\n"app.kubernetes.io/name" = "web"\ntier = "db"\n}'),
+    ).toBe(
+      'labels {\n  "app.kubernetes.io/name" = "web"\n  tier                     = "db"\n}\n',
+    );
+  });
+
+  test("breaks alignment at blocks and multi-line values", () => {
+    expect(formatHCL("a = 1\nb {}\nlonger = 2\nl = [\n1,\n]\nxy = 3")).toBe(
+      "a = 1\nb {}\nlonger = 2\nl = [\n  1,\n]\nxy = 3\n",
+    );
+  });
+
+  test("normalizes blank lines", () => {
+    expect(formatHCL("\n\na = 1\n\n\n\nb {\n\n  c = 2\n\n}\n\n")).toBe(
+      "a = 1\n\nb {\n  c = 2\n}\n",
+    );
+  });
+
+  test("keeps comments", () => {
+    expect(
+      formatHCL("# Header\napp {\n# Name\nname = 1 # one\n  // end\n}\n"),
+    ).toBe("# Header\napp {\n  # Name\n  name = 1 # one\n  // end\n}\n");
+  });
+
+  test("moves line comments off the tokens they would swallow", () => {
+    expect(formatHCL("web # c\n{\nname # d\n= /* e */ 1\n}")).toBe(
+      "web { # c\n  name = /* e */ 1 # d\n}\n",
+    );
+  });
+
+  test("re-indents multi-line values by bracket depth", () => {
+    expect(formatHCL('tags = {\nenv = "prod"\nlist = [\n1,\n2,\n]\n}\n')).toBe(
+      'tags = {\n  env = "prod"\n  list = [\n    1,\n    2,\n  ]\n}\n',
+    );
+  });
+
+  test("keeps single-line objects as written", () => {
+    const source =
+      'ports = [{ name = "http", port: 80 }, { name = "https" }]\n';
+    expect(formatHCL(source)).toBe(source);
+  });
+
+  test("leaves heredoc content untouched", () => {
+    const source = "script = <<EOF\n   indented\nEOF\n";
+    expect(formatHCL(source)).toBe(source);
+  });
+
+  test("writes CRLF sources with \\n line endings throughout", () => {
+    const source =
+      "a=1\r\n/* note\r\n  here */\r\nscript = <<EOF\r\n  x\r\nEOF\r\n";
+    expect(formatHCL(source)).toBe(
+      "a = 1\n/* note\n  here */\nscript = <<EOF\n  x\nEOF\n",
+    );
+  });
+
+  test("keeps the service directive at the top", () => {
+    expect(formatHCL("# Stack\nuse cloudformation\nA = 1\n")).toBe(
+      "# Stack\nuse cloudformation\n\nA = 1\n",
+    );
+  });
+
+  test("keeps include and import directives in order", () => {
+    const source =
+      'use kubernetes\n# Shared\ninclude  "labels.hcl"\nimport "vars.hcl"   as vars\n\n\nA = 1\n';
+    expect(formatHCL(source)).toBe(
+      'use kubernetes\n# Shared\ninclude "labels.hcl"\nimport "vars.hcl" as vars\n\nA = 1\n',
+    );
+  });
+
+  test("is idempotent", () => {
+    const source = readFileSync(
+      "examples/cloudformation/s3-lambda.hcl",
+      "utf-8",
+    );
+    const formatted = formatHCL(source);
+    expect(formatHCL(formatted)).toBe(formatted);
+  });
+
+  test("reports syntax errors", () => {
+    expect(() => formatHCL("a = = 1", "main.hcl")).toThrow(
+      "Unexpected token: =",
+    );
+  });
+});
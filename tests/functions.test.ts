@@ -0,0 +1,265 @@
+import { test, expect, describe, beforeAll, afterAll } from "bun:test";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseHCL } from "../src/parser/parser";
+import type { HCLParseError } from "../src/parser/errors";
+import { functionNames, registerFunction } from "../src/parser/functions";
+
+/**
+ * Parses `value = <expr>` alongside the given locals and returns the value.
+ */
+function evaluate(expr: string, locals = ""): unknown {
+  return parseHCL(`locals {\n${locals}\n}\nvalue = ${expr}`).value;
+}
+
+describe("Functions", () => {
+  describe("Calls", () => {
+    test("calls functions with arguments", () => {
+      expect(evaluate('upper("web")')).toBe("WEB");
+      expect(evaluate('join("-", ["a", "b"])')).toBe("a-b");
+      expect(evaluate("max(1, 5, 3)")).toBe(5);
+    });
+
+    test("expands a final list argument with ...", () => {
+      expect(evaluate("max(local.sizes...)", "sizes = [4, 9, 2]")).toBe(9);
+    });
+
+    test("accepts a trailing comma and nested calls", () => {
+      expect(evaluate('upper(trimspace(" a "),)')).toBe("A");
+    });
+
+    test("converts arguments to parameter types", () => {
+      expect(evaluate("upper(true)")).toBe("TRUE");
+      expect(evaluate('abs("-3")')).toBe(3);
+    });
+
+    test("rejects unknown functions", () => {
+      expect(() => evaluate("nope(1)")).toThrow("Unknown function 'nope'");
+    });
+
+    test("rejects wrong argument counts", () => {
+      expect(() => evaluate('upper("a", "b")')).toThrow(
+        "Error in function call 'upper': Function 'upper' expects 1 argument, got 2",
+      );
+      expect(() => evaluate("lookup({})")).toThrow(
+        "expects 2 to 3 arguments, got 1",
+      );
+    });
+
+    test("points at the offending argument", () => {
+      try {
+        parseHCL('value = join(",", "not-a-list")');
+        throw new Error("expected an error");
+      } catch (err) {
+        const parseError = err as HCLParseError;
+        expect(parseError.message).toBe(
+          "Error in function call 'join': Invalid argument 2: expected list, got string",
+        );
+        expect(parseError.loc.column).toBe(19);
+      }
+    });
+
+    test("allows registering new functions", () => {
+      registerFunction("shout", {
+        params: ["string"],
+        call: ([s]) => `${(s as string).toUpperCase()}!`,
+      });
+      expect(evaluate('shout("hi")')).toBe("HI!");
+      expect(functionNames()).toContain("shout");
+      expect(() =>
+        registerFunction("shout", { params: [], call: () => null }),
+      ).toThrow("Function 'shout' is already registered");
+    });
+  });
+
+  describe("Strings", () => {
+    test("transforms strings", () => {
+      expect(evaluate('lower("ABC")')).toBe("abc");
+      expect(evaluate('title("hello world")')).toBe("Hello World");
+      expect(evaluate('replace("a.b.c", ".", "/")')).toBe("a/b/c");
+      expect(evaluate('split(",", "a,b")')).toEqual(["a", "b"]);
+      expect(evaluate('substr("hello", 1, 3)')).toBe("ell");
+      expect(evaluate('trimprefix("v1.2", "v")')).toBe("1.2");
+    });
+
+    test("formats values", () => {
+      expect(evaluate('format("%s:%d (%.1f%%)", "cpu", 3, 99.25)')).toBe(
+        "cpu:3 (99.3%)",
+      );
+      expect(evaluate('format("%q", "x")')).toBe('"x"');
+    });
+  });
+
+  describe("Collections", () => {
+    test("merges objects with later arguments winning", () => {
+      const locals = `
+        common = {
+          app = "web"
+          tier = "frontend"
+        }
+      `;
+      expect(
+        evaluate('merge(local.common, { tier = "edge" })', locals),
+      ).toEqual({ app: "web", tier: "edge" });
+    });
+
+    test("looks up keys with an optional default", () => {
+      const locals = `sizes = { small = 1 }`;
+      expect(evaluate('lookup(local.sizes, "small")', locals)).toBe(1);
+      expect(evaluate('lookup(local.sizes, "large", 8)', locals)).toBe(8);
+      expect(() => evaluate('lookup(local.sizes, "large")', locals)).toThrow(
+        "Object has no attribute 'large'",
+      );
+      expect(evaluate('lookup({}, "toString", "x")')).toBe("x");
+      expect(() => evaluate('lookup({}, "constructor")')).toThrow(
+        "Object has no attribute 'constructor'",
+      );
+    });
+
+    test("works with lists", () => {
+      expect(evaluate("length([1, 2, 3])")).toBe(3);
+      expect(evaluate("concat([1], [2, 3])")).toEqual([1, 2, 3]);
+      expect(evaluate("distinct([1, 2, 1])")).toEqual([1, 2]);
+      expect(evaluate("flatten([1, [2, [3]]])")).toEqual([1, 2, 3]);
+      expect(evaluate("contains([1, 2], 2)")).toBe(true);
+      expect(evaluate("range(3)")).toEqual([0, 1, 2]);
+      expect(evaluate("element([1, 2], 3)")).toBe(2);
+      expect(evaluate("slice([1, 2, 3], 1, 3)")).toEqual([2, 3]);
+      expect(evaluate('zipmap(["a", "b"], [1, 2])')).toEqual({ a: 1, b: 2 });
+      expect(evaluate('coalesce(null, "", "x")')).toBe("x");
+    });
+
+    test("rejects out-of-range list arguments", () => {
+      expect(() => evaluate("element([1, 2], -1)")).toThrow(
+        "Index must not be negative",
+      );
+      expect(() => evaluate("slice([1, 2, 3], -1, 2)")).toThrow(
+        "Invalid range -1..2 for list of length 3",
+      );
+      expect(evaluate("range(1024)")).toHaveLength(1024);
+      expect(() => evaluate("range(0, 1e9)")).toThrow(
+        "Range must not have more than 1024 elements",
+      );
+    });
+  });
+
+  describe("Encoding and hashing", () => {
+    test("encodes JSON", () => {
+      expect(evaluate('jsonencode({ unit = "percent" })')).toBe(
+        '{"unit":"percent"}',
+      );
+      expect(evaluate('jsondecode("[1, 2]")')).toEqual([1, 2]);
+    });
+
+    test("encodes base64", () => {
+      expect(evaluate('base64encode("admin")')).toBe("YWRtaW4=");
+      expect(evaluate('base64decode("YWRtaW4=")')).toBe("admin");
+    });
+
+    test("hashes strings", () => {
+      expect(evaluate('md5("hello")')).toBe("5d41402abc4b2a76b9719d911017c592");
+      expect(evaluate('sha256("hello")')).toBe(
+        "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824",
+      );
+    });
+  });
+
+  describe("Files", () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), "hcl-functions-"));
+      mkdirSync(join(dir, "dashboards"));
+      writeFileSync(join(dir, "dashboards", "cpu.json"), '{"title":"CPU"}');
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("reads files relative to the input file", () => {
+      const result = parseHCL('value = file("dashboards/cpu.json")', {
+        file: join(dir, "main.hcl"),
+      });
+      expect(result.value).toBe('{"title":"CPU"}');
+    });
+
+    test("reads files relative to an explicit base directory", () => {
+      const result = parseHCL(
+        'value = jsondecode(file("dashboards/cpu.json")).title',
+        { baseDir: dir },
+      );
+      expect(result.value).toBe("CPU");
+    });
+
+    test("checks file existence", () => {
+      const options = { baseDir: dir };
+      expect(
+        parseHCL('value = fileexists("dashboards/cpu.json")', options).value,
+      ).toBe(true);
+      expect(
+        parseHCL('value = fileexists("missing.json")', options).value,
+      ).toBe(false);
+    });
+
+    test("reports missing files", () => {
+      expect(() =>
+        parseHCL('value = file("missing.json")', { baseDir: dir }),
+      ).toThrow("Error in function call 'file': No such file 'missing.json'");
+    });
+  });
+
+  describe("CloudFormation intrinsics", () => {
+    /**
+     * Evaluates an expression in a file with `use cloudformation`.
+     */
+    function intrinsic(expr: string): unknown {
+      return parseHCL(`use cloudformation\nvalue = ${expr}`).value;
+    }
+
+    test("evaluates to long-form maps", () => {
+      expect(intrinsic('ref("Bucket")')).toEqual({ Ref: "Bucket" });
+      expect(intrinsic('get_att("Fn", "Arn")')).toEqual({
+        "Fn::GetAtt": ["Fn", "Arn"],
+      });
+      expect(intrinsic('sub("$${AWS::Region}")')).toEqual({
+        "Fn::Sub": "${AWS::Region}",
+      });
+      expect(intrinsic('sub("$${A}", { A = ref("B") })')).toEqual({
+        "Fn::Sub": ["${A}", { A: { Ref: "B" } }],
+      });
+      expect(intrinsic("select(0, get_azs())")).toEqual({
+        "Fn::Select": [0, { "Fn::GetAZs": "" }],
+      });
+      expect(
+        intrinsic('and(condition("A"), not([true]), equals(1, 2))'),
+      ).toEqual({
+        "Fn::And": [
+          { Condition: "A" },
+          { "Fn::Not": [[true]] },
+          { "Fn::Equals": [1, 2] },
+        ],
+      });
+    });
+
+    test("computes join and split of plain values", () => {
+      expect(intrinsic('join("-", ["a", 1])')).toBe("a-1");
+      expect(intrinsic('split(",", "a,b")')).toEqual(["a", "b"]);
+      expect(intrinsic('join(",", [ref("A"), "b"])')).toEqual({
+        "Fn::Join": [",", [{ Ref: "A" }, "b"]],
+      });
+      expect(intrinsic('split(",", import_value("Ids"))')).toEqual({
+        "Fn::Split": [",", { "Fn::ImportValue": "Ids" }],
+      });
+    });
+
+    test("are only available with use cloudformation", () => {
+      expect(() => evaluate('ref("Bucket")')).toThrow(
+        "Function 'ref' is only available with `use cloudformation`",
+      );
+      expect(functionNames("cloudformation")).toContain("get_att");
+      expect(functionNames()).not.toContain("get_att");
+    });
+  });
+});
@@ -0,0 +1,39 @@
+# Exercises the YAML emitter styles; each <style>.yaml next to this file is
+# the expected output for one set of options
+service "web" {
+  image    = "nginx:1.25"
+  replicas = 3
+  enabled  = true
+  ports    = [80, 443]
+  hosts    = ["example.com", "www.example.com", "api.example.com", "static.example.com"]
+  args     = ["--port", "8080", "yes"]
+
+  description = "A web server that serves the static site and proxies API requests to the backend services"
+
+  script = <<EOT
+#!/bin/sh
+echo "starting"
+exec nginx -g 'daemon off;'
+EOT
+
+  banner = "  indented first line\nsecond line"
+
+  # Passed to the container
+  env = [
+    # Selects the config file
+    {
+      name  = "MODE"
+      value = "production"
+    },
+    {
+      # Left unset on purpose
+      name  = "EMPTY"
+      value = ""
+    },
+  ]
+
+  limits {
+    cpu    = "500m"
+    memory = null
+  }
+}
@@ -1,9 +1,40 @@
 import { test, expect, describe, beforeAll, afterAll } from "bun:test";
+import { rm } from "node:fs/promises";
 import { parseHCL } from "../src/parser/parser";
+import type { HCLValue } from "../src/parser/parser";
 import { validateHCL } from "../src/validation/validator";
-import { writeYAML } from "../src/converters/converter";
+import { toYAML, toYAMLStream, writeYAML } from "../src/converters/converter";
+import { parseDirective } from "../src/directives/parser";
+import { validateCloudFormation } from "../src/validation/services/cloudformation";
+import { validateGrafana } from "../src/validation/services/grafana";
+import {
+  kubernetesDocuments,
+  validateKubernetes,
+} from "../src/validation/services/kubernetes";
+import { CLOUDFORMATION_LOAD_SCHEMA } from "../src/converters/services/cloudformation";
+import {
+  dashboardEnvelope,
+  layoutDashboard,
+} from "../src/converters/services/grafana";
+import { SchemaValidationError } from "../src/validation/validator";
 import yaml from "js-yaml";
 
+/**
+ * Runs the CLI, feeding `stdin` to it.
+ */
+function run(args: string[], stdin = "", cwd = process.cwd()) {
+  const app = new URL("../src/app.ts", import.meta.url).pathname;
+  const result = Bun.spawnSync(["bun", app, ...args], {
+    stdin: Buffer.from(stdin),
+    cwd,
+  });
+  return {
+    exitCode: result.exitCode,
+    stdout: result.stdout.toString(),
+    stderr: result.stderr.toString(),
+  };
+}
+
 describe("Integration tests", () => {
   const testOutputPath = "/tmp/test-output.yaml";
 
@@ -131,6 +162,7 @@ describe("Integration tests", () => {
         resource "aws_instance" "web" {
           ami = "ami-123456"
           instance_type = "t2.micro"
+          availability_zone = "\${var.region}a"
           count = 2
           monitoring = true
           tags {
@@ -149,20 +181,15 @@ describe("Integration tests", () => {
       const yamlContent = await Bun.file(testOutputPath).text();
       const loaded = yaml.load(yamlContent);
 
-      expect(loaded).toHaveProperty("variable.region");
+      expect(loaded).not.toHaveProperty("variable");
       expect(loaded).toHaveProperty("resource.aws_instance.web");
       expect(loaded).toMatchObject({
-        variable: {
-          region: {
-            default: "us-west-2",
-            type: "string",
-          },
-        },
         resource: {
           aws_instance: {
             web: {
               ami: "ami-123456",
               instance_type: "t2.micro",
+              availability_zone: "us-west-2a",
               count: 2,
               monitoring: true,
               tags: {
@@ -178,6 +205,597 @@ describe("Integration tests", () => {
     });
   });
 
+  describe("Prototype-named keys", () => {
+    test("writes blocks named like Object.prototype members", () => {
+      const parsed = parseHCL(
+        "# First\nconstructor {\n  a = 1\n}\n__proto__ {\n  b = [2]\n}\n",
+      );
+      expect(() => validateHCL(parsed)).not.toThrow();
+      expect(toYAML(parsed, { keepComments: true, flowArrays: true })).toBe(
+        "# First\nconstructor:\n  a: 1\n__proto__:\n  b: [2]\n",
+      );
+    });
+  });
+
+  describe("Example files", () => {
+    test("converts the CloudFormation example", async () => {
+      const source = await Bun.file(
+        "examples/cloudformation/s3-lambda.hcl",
+      ).text();
+      const { serviceType, cleanedInput } = parseDirective(source);
+      const parsed = parseHCL(cleanedInput);
+
+      expect(serviceType).toBe("cloudformation");
+      expect(() => validateCloudFormation(parsed)).not.toThrow();
+      expect(parsed).toMatchObject({
+        AWSTemplateFormatVersion: "2010-09-09",
+        Resources: {
+          ImageBucket: { Type: "AWS::S3::Bucket" },
+        },
+      });
+    });
+
+    test("converts the Grafana example", async () => {
+      const source = await Bun.file(
+        "examples/grafana/system-dashboard.hcl",
+      ).text();
+      const { serviceType, cleanedInput } = parseDirective(source);
+      const parsed = parseHCL(cleanedInput);
+
+      expect(serviceType).toBe("grafana");
+      expect(() => validateGrafana(parsed)).not.toThrow();
+    });
+
+    test("converts the Kubernetes example", async () => {
+      const source = await Bun.file("examples/kubernetes/web-app.hcl").text();
+      const { serviceType, cleanedInput } = parseDirective(source);
+      const parsed = parseHCL(cleanedInput);
+
+      expect(serviceType).toBe("kubernetes");
+      expect(() => validateKubernetes(parsed)).not.toThrow();
+      expect(parsed).toMatchObject({
+        Ingress: {
+          metadata: {
+            annotations: { "kubernetes.io/ingress.class": "nginx" },
+          },
+        },
+      });
+    });
+  });
+
+  describe("String escapes", () => {
+    test("round-trips escaped strings through YAML", async () => {
+      const hcl = String.raw`
+        policy {
+          document = "{\"Version\": \"2012-10-17\"}"
+          banner = "line one\nline two\ttabbed"
+          path = "C:\\temp"
+          quote = "it's \"quoted\""
+        }
+      `;
+
+      const parsed = parseHCL(hcl);
+      validateHCL(parsed);
+      await writeYAML(parsed, testOutputPath);
+
+      const yamlContent = await Bun.file(testOutputPath).text();
+      const loaded = yaml.load(yamlContent);
+
+      expect(loaded).toEqual({
+        policy: {
+          document: '{"Version": "2012-10-17"}',
+          banner: "line one\nline two\ttabbed",
+          path: "C:\\temp",
+          quote: 'it\'s "quoted"',
+        },
+      });
+    });
+  });
+
+  describe("Null values", () => {
+    test("validates null in Kubernetes metadata", () => {
+      const { cleanedInput } = parseDirective(`
+        use kubernetes
+
+        ConfigMap {
+          apiVersion = "v1"
+          kind = "ConfigMap"
+          metadata {
+            name = "settings"
+            creationTimestamp = null
+          }
+        }
+      `);
+      const parsed = parseHCL(cleanedInput);
+
+      expect(() => validateKubernetes(parsed)).not.toThrow();
+      expect(yaml.dump(parsed)).toContain("creationTimestamp: null");
+    });
+  });
+
+  describe("Heredocs", () => {
+    test("emits heredocs as literal block scalars", async () => {
+      const hcl = `
+        ConfigMap {
+          data {
+            nginx_conf = <<-EOF
+              server {
+                listen 80;
+              }
+            EOF
+          }
+        }
+      `;
+
+      const parsed = parseHCL(hcl);
+      validateHCL(parsed);
+      await writeYAML(parsed, testOutputPath);
+
+      const yamlContent = await Bun.file(testOutputPath).text();
+      expect(yamlContent).toBe(
+        [
+          "ConfigMap:",
+          "  data:",
+          "    nginx_conf: |",
+          "      server {",
+          "        listen 80;",
+          "      }",
+          "",
+        ].join("\n"),
+      );
+    });
+  });
+
+  describe("Comments", () => {
+    test("re-emits comments with keepComments", () => {
+      const hcl = `
+        # Web deployment
+        Deployment {
+          /* Scaled by
+             the autoscaler */
+          replicas = 3
+          containers {
+            name = "web" # main container
+          }
+          containers {
+            name = "sidecar"
+          }
+        }
+      `;
+
+      const parsed = parseHCL(hcl);
+      expect(toYAML(parsed, { keepComments: true })).toBe(
+        [
+          "# Web deployment",
+          "Deployment:",
+          "  # Scaled by",
+          "  # the autoscaler",
+          "  replicas: 3",
+          "  containers:",
+          "    # main container",
+          "    - name: web",
+          "    - name: sidecar",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    test("places comments on elements of nested lists", () => {
+      const parsed = parseHCL(`
+        matrix = [[
+          # first
+          { a = 1, b = 2 },
+        ]]
+      `);
+      const text = toYAML(parsed, { keepComments: true });
+      expect(text).toBe("matrix:\n    # first\n  - - a: 1\n      b: 2\n");
+      expect(yaml.load(text)).toEqual(parsed);
+    });
+
+    test("keeps keys that look like comment placeholders", () => {
+      const parsed = parseHCL(`
+        items = [
+          # first
+          { a = 1 },
+        ]
+        "__hcl_comment_0__" = null
+      `);
+      const text = toYAML(parsed, { keepComments: true });
+      expect(text).toBe(
+        "items:\n  # first\n  - a: 1\n__hcl_comment_0__: null\n",
+      );
+      expect(yaml.load(text)).toEqual(parsed);
+    });
+
+    test("omits comments by default", async () => {
+      const parsed = parseHCL("# Web tier\nweb {\n  port = 80\n}");
+      await writeYAML(parsed, testOutputPath);
+
+      const yamlContent = await Bun.file(testOutputPath).text();
+      expect(yamlContent).toBe("web:\n  port: 80\n");
+    });
+  });
+
+  describe("Kubernetes bundles", () => {
+    test("writes each resource as its own document", () => {
+      const { cleanedInput } = parseDirective(`
+        use kubernetes
+
+        Namespace {
+          apiVersion = "v1"
+          kind = "Namespace"
+          metadata {
+            name = "app"
+          }
+        }
+
+        Service "web" {
+          apiVersion = "v1"
+          kind = "Service"
+          metadata {
+            name = "web"
+          }
+          spec {}
+        }
+      `);
+      const parsed = parseHCL(cleanedInput);
+      const documents = kubernetesDocuments(parsed).map(({ resource }) => ({
+        value: resource as Record<string, HCLValue>,
+      }));
+      const text = toYAMLStream(documents);
+
+      expect(text).toBe(
+        [
+          "apiVersion: v1",
+          "kind: Namespace",
+          "metadata:",
+          "  name: app",
+          "---",
+          "apiVersion: v1",
+          "kind: Service",
+          "metadata:",
+          "  name: web",
+          "spec: {}",
+          "",
+        ].join("\n"),
+      );
+      expect(yaml.loadAll(text)).toMatchObject([
+        { kind: "Namespace" },
+        { kind: "Service" },
+      ]);
+    });
+
+    test("writes document comments with keepComments", () => {
+      const documents = [
+        { value: { kind: "Namespace" }, comments: ["App namespace"] },
+        { value: { kind: "Service" } },
+      ];
+      expect(toYAMLStream(documents, { keepComments: true })).toBe(
+        "# App namespace\nkind: Namespace\n---\nkind: Service\n",
+      );
+      expect(toYAMLStream(documents)).toBe(
+        "kind: Namespace\n---\nkind: Service\n",
+      );
+    });
+  });
+
+  describe("CloudFormation intrinsics", () => {
+    const source = `
+      use cloudformation
+
+      Resources {
+        Bucket {
+          Type = "AWS::S3::Bucket"
+          Properties {
+            BucketName = sub("$\${AWS::StackName}-data")
+          }
+        }
+      }
+
+      Outputs {
+        Arn {
+          Value = get_att("Bucket", "Arn")
+        }
+        Zones {
+          Value = join(",", get_azs())
+        }
+      }
+    `;
+
+    test("validates intrinsic functions", () => {
+      const parsed = parseHCL(source);
+      expect(() => validateCloudFormation(parsed)).not.toThrow();
+
+      const invalid = {
+        Resources: {
+          Bucket: {
+            Type: "AWS::S3::Bucket",
+            Properties: {
+              Name: { Ref: 1 },
+              Arn: { "Fn::GetAtt": ["Bucket"] },
+              Zones: { "Fn::GetZones": "" },
+            },
+          },
+        },
+      };
+      try {
+        validateCloudFormation(invalid);
+        throw new Error("expected a validation error");
+      } catch (err) {
+        const { issues } = err as SchemaValidationError;
+        expect(issues.map((i) => i.path)).toEqual([
+          "Resources.Bucket.Properties.Name.Ref",
+          "Resources.Bucket.Properties.Arn.Fn::GetAtt",
+          "Resources.Bucket.Properties.Zones.Fn::GetZones",
+        ]);
+        expect(issues[2]!.message).toBe(
+          "Unknown intrinsic function 'Fn::GetZones'",
+        );
+      }
+    });
+
+    test("accepts property objects with prototype-named keys", () => {
+      const data = {
+        Resources: {
+          B: {
+            Type: "AWS::S3::Bucket",
+            Properties: { x: { constructor: 1 }, y: { toString: "a" } },
+          },
+        },
+      };
+      expect(() => validateCloudFormation(data)).not.toThrow();
+    });
+
+    test("writes long-form maps, or short-form tags with shortForm", () => {
+      const parsed = parseHCL(source);
+      expect(toYAML(parsed)).toContain(
+        "    Value:\n      Fn::GetAtt:\n        - Bucket\n        - Arn\n",
+      );
+
+      const text = toYAML(parsed, { shortForm: true });
+      expect(text).toContain("BucketName: !Sub ${AWS::StackName}-data\n");
+      expect(text).toContain("Value: !GetAtt Bucket.Arn\n");
+      expect(text).toContain("Value: !Join\n      - ','\n      - !GetAZs ''\n");
+      expect(yaml.load(text, { schema: CLOUDFORMATION_LOAD_SCHEMA })).toEqual(
+        parsed,
+      );
+    });
+  });
+
+  describe("Grafana layout", () => {
+    const source = `
+      use grafana
+
+      dashboard {
+        title = "Service"
+
+        layout {
+          columns = 3
+          height  = 6
+        }
+
+        panels {
+          # Requests per second
+          rps {
+            type  = "stat"
+            title = "RPS"
+          }
+          errors {
+            id    = 7
+            type  = "stat"
+            title = "Errors"
+          }
+          latency {
+            type  = "timeseries"
+            title = "Latency"
+            gridPos {
+              w = 24
+              h = 8
+            }
+          }
+          hosts {
+            type      = "row"
+            title     = "Hosts"
+            collapsed = true
+            panels {
+              cpu {
+                type  = "timeseries"
+                title = "CPU"
+              }
+            }
+          }
+          database {
+            type  = "row"
+            title = "Database"
+            panels {
+              connections {
+                type  = "timeseries"
+                title = "Connections"
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    /**
+     * Lists each panel's title, id and position, rows' panels included.
+     */
+    function positions(panels: HCLValue): unknown[] {
+      return (panels as Record<string, any>[]).map(
+        ({ title, id, gridPos, panels }) => {
+          const { x, y, w, h } = gridPos;
+          const position = [title, id, x, y, w, h];
+          return panels?.length ? [...position, positions(panels)] : position;
+        },
+      );
+    }
+
+    test("assigns ids and grid positions", () => {
+      const parsed = parseHCL(source);
+      layoutDashboard(parsed);
+      const dashboard = parsed.dashboard as Record<string, HCLValue>;
+
+      expect(dashboard.layout).toBeUndefined();
+      expect(positions(dashboard.panels!)).toEqual([
+        ["RPS", 8, 0, 0, 8, 6],
+        ["Errors", 7, 8, 0, 8, 6],
+        ["Latency", 9, 0, 6, 24, 8],
+        ["Hosts", 10, 0, 14, 24, 1, [["CPU", 11, 0, 15, 8, 6]]],
+        ["Database", 12, 0, 15, 24, 1],
+        ["Connections", 13, 0, 16, 8, 6],
+      ]);
+      expect(() => validateGrafana(parsed)).not.toThrow();
+      expect(toYAML(parsed, { keepComments: true })).toContain(
+        "  panels:\n    # Requests per second\n    - type: stat\n",
+      );
+    });
+
+    test("leaves dashboards without a layout block as they are", () => {
+      const data = {
+        dashboard: { title: "x", panels: { a: { type: "text" } } },
+      };
+      layoutDashboard(data);
+      expect(data).toEqual({
+        dashboard: { title: "x", panels: { a: { type: "text" } } },
+      });
+    });
+
+    test("rejects invalid layout options", () => {
+      const data = {
+        dashboard: { title: "x", layout: { columns: 0, size: 1 } },
+      };
+      try {
+        layoutDashboard(data);
+        throw new Error("expected a validation error");
+      } catch (err) {
+        expect(err).toBeInstanceOf(SchemaValidationError);
+        const { issues } = err as SchemaValidationError;
+        expect(issues.map((i) => i.path)).toEqual([
+          "dashboard.layout.columns",
+          "dashboard.layout",
+        ]);
+      }
+    });
+
+    test("wraps the dashboard in the API envelope", () => {
+      const data = {
+        folderUid: "ops",
+        dashboard: { title: "x", panels: { a: { type: "text" } } },
+      };
+      expect(dashboardEnvelope(data)).toEqual({
+        dashboard: { title: "x", panels: [{ type: "text" }] },
+        folderUid: "ops",
+        overwrite: false,
+      });
+      expect(dashboardEnvelope({ ...data, overwrite: true }).overwrite).toBe(
+        true,
+      );
+    });
+
+    test("takes a --grafana-json path only after =", async () => {
+      const dir = "/tmp/test-grafana-json-dir";
+      try {
+        await Bun.write(`${dir}/dashboard.hcl`, source);
+        const bare = run(
+          ["dashboard.hcl", "--grafana-json", "out.yaml", "-q"],
+          "",
+          dir,
+        );
+        expect(bare.exitCode).toBe(0);
+        expect(await Bun.file(`${dir}/out.json`).exists()).toBe(true);
+
+        const given = run(
+          ["dashboard.hcl", "--grafana-json=api.json", "out.yaml", "-q"],
+          "",
+          dir,
+        );
+        expect(given.exitCode).toBe(0);
+        expect(await Bun.file(`${dir}/api.json`).json()).toMatchObject({
+          dashboard: { title: "Service" },
+        });
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("Config file", () => {
+    const dir = "/tmp/test-config-dir";
+
+    beforeAll(async () => {
+      await Bun.write(`${dir}/.hcl2yaml.hcl`, "yaml {\n  indent = 4\n}\n");
+      await Bun.write(`${dir}/app.hcl`, "app {\n  port = 80\n}\n");
+    });
+
+    afterAll(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    test("applies the config without converting it with its directory", () => {
+      const expected = "app:\n    port: 80\n";
+      expect(run([".", "-q"], "", dir).stdout).toBe(expected);
+      expect(run([dir, "-q", "--config", `${dir}/.hcl2yaml.hcl`]).stdout).toBe(
+        expected,
+      );
+    });
+  });
+
+  describe("Pipelines", () => {
+    const namespace = `
+      Namespace {
+        apiVersion = "v1"
+        kind = "Namespace"
+        metadata {
+          name = "demo"
+        }
+      }
+    `;
+
+    test("reads stdin and writes YAML to stdout", () => {
+      const result = run(["-", "--service", "kubernetes"], namespace);
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toBe(
+        "apiVersion: v1\nkind: Namespace\nmetadata:\n  name: demo\n",
+      );
+      expect(result.stderr).toBe(
+        "Using kubernetes validator...\n" +
+          "Successfully converted and validated (kubernetes): <stdout>\n",
+      );
+    });
+
+    test("writes - as stdout in the given format, quietly", () => {
+      const result = run(
+        ["-", "-", "--format", "json", "--quiet"],
+        'name = "web"\n',
+      );
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toBe('{\n  "name": "web"\n}\n');
+      expect(result.stderr).toBe("");
+    });
+
+    test("validates stdin as the service named by --service", () => {
+      const result = run(["-", "--service", "kubernetes"], "a = 1\n");
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout).toBe("");
+      expect(result.stderr).toContain("Kubernetes validation failed");
+
+      const conflict = run(
+        ["-", "--service", "grafana"],
+        `use kubernetes\n${namespace}`,
+      );
+      expect(conflict.stderr).toBe(
+        "--service grafana conflicts with `use kubernetes` in <stdin>\n",
+      );
+    });
+
+    test("rejects reading stdin twice", () => {
+      expect(run(["-", "-", "out.yaml"]).stderr).toContain(
+        "Standard input (-) can only be read once",
+      );
+    });
+  });
+
   describe("Data type preservation", () => {
     test("preserves data types correctly", async () => {
       const hcl = `
@@ -189,6 +807,7 @@ describe("Integration tests", () => {
           bool_true = true
           bool_false = false
           array_val = [1, 2, 3]
+          null_val = null
         }
       `;
 
@@ -212,6 +831,8 @@ describe("Integration tests", () => {
       expect(loaded.config.negative_val).toBe(-10);
       expect(loaded.config.bool_true).toBe(true);
       expect(loaded.config.bool_false).toBe(false);
+      expect(loaded.config.null_val).toBeNull();
+      expect(yamlContent).toContain("null_val: null");
     });
   });
 });
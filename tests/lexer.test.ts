@@ -1,11 +1,16 @@
 import { test, expect, describe } from "bun:test";
-import { tokenize } from "../src/parser/lexer";
+import { type Token, scan, scanComments, tokenize } from "../src/parser/lexer";
+import { HCLErrorList, type HCLParseError } from "../src/parser/errors";
+
+// Most tests only care about token kinds and values, not positions
+const withoutLocations = (tokens: Token[]) =>
+  tokens.map(({ type, value }) => ({ type, value }));
 
 describe("Lexer", () => {
   describe("Basic tokens", () => {
     test("tokenizes identifiers", () => {
       const tokens = tokenize("resource variable");
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "identifier", value: "resource" },
         { type: "identifier", value: "variable" },
       ]);
@@ -13,7 +18,7 @@ describe("Lexer", () => {
 
     test("tokenizes strings", () => {
       const tokens = tokenize('"hello" "world"');
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "string", value: "hello" },
         { type: "string", value: "world" },
       ]);
@@ -21,7 +26,7 @@ describe("Lexer", () => {
 
     test("tokenizes numbers", () => {
       const tokens = tokenize("42 3.14");
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "number", value: 42 },
         { type: "number", value: 3.14 },
       ]);
@@ -29,7 +34,7 @@ describe("Lexer", () => {
 
     test("tokenizes negative numbers", () => {
       const tokens = tokenize("-42 -3.14");
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "number", value: -42 },
         { type: "number", value: -3.14 },
       ]);
@@ -37,7 +42,7 @@ describe("Lexer", () => {
 
     test("tokenizes scientific notation", () => {
       const tokens = tokenize("1e5 2.5e-3");
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "number", value: 1e5 },
         { type: "number", value: 2.5e-3 },
       ]);
@@ -45,15 +50,23 @@ describe("Lexer", () => {
 
     test("tokenizes booleans", () => {
       const tokens = tokenize("true false");
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "boolean", value: true },
         { type: "boolean", value: false },
       ]);
     });
 
+    test("tokenizes null", () => {
+      const tokens = tokenize("null nullable");
+      expect(withoutLocations(tokens)).toEqual([
+        { type: "null", value: null },
+        { type: "identifier", value: "nullable" },
+      ]);
+    });
+
     test("tokenizes symbols", () => {
       const tokens = tokenize("{ } = [ ] ,");
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "symbol", value: "{" },
         { type: "symbol", value: "}" },
         { type: "symbol", value: "=" },
@@ -64,13 +77,114 @@ describe("Lexer", () => {
     });
   });
 
+  describe("String escapes", () => {
+    test("unescapes quotes, backslashes and control characters", () => {
+      const tokens = tokenize(String.raw`"say \"hi\"" "a\\b" "l1\nl2\r\tx"`);
+      expect(tokens.map((t) => t.value)).toEqual([
+        'say "hi"',
+        "a\\b",
+        "l1\nl2\r\tx",
+      ]);
+    });
+
+    test("unescapes unicode sequences", () => {
+      const tokens = tokenize(String.raw`"caf\u00e9 \U0001F600"`);
+      expect(tokens[0]?.value).toBe("café 😀");
+    });
+
+    test("keeps JSON snippets intact", () => {
+      const tokens = tokenize(String.raw`"{\"unit\": \"percent\"}"`);
+      expect(JSON.parse(tokens[0]?.value as string)).toEqual({
+        unit: "percent",
+      });
+    });
+
+    test("leaves template sequences untouched", () => {
+      const tokens = tokenize('"$${x} ${y}"');
+      expect(tokens[0]?.value).toBe("$${x} ${y}");
+    });
+
+    test("throws on invalid escape sequences with their location", () => {
+      expect(() => tokenize(String.raw`x = "a\qb"`)).toThrow(
+        "Invalid escape sequence: \\q",
+      );
+      try {
+        tokenize(String.raw`x = "a\qb"`);
+      } catch (err) {
+        expect((err as HCLParseError).loc.column).toBe(7);
+      }
+    });
+
+    test("throws on short unicode escapes", () => {
+      expect(() => tokenize(String.raw`"\u12"`)).toThrow(
+        "Invalid unicode escape: expected 4 hex digits",
+      );
+    });
+
+    test("throws on unterminated strings", () => {
+      expect(() => tokenize('x = "abc\ny = 1')).toThrow("Unterminated string");
+      expect(() => tokenize(String.raw`x = "abc\"`)).toThrow(
+        "Unterminated string",
+      );
+    });
+  });
+
+  describe("Heredocs", () => {
+    test("tokenizes heredocs as strings", () => {
+      const tokens = tokenize("x = <<EOF\nline one\n  line two\nEOF\ny = 1");
+      expect(withoutLocations(tokens)).toEqual([
+        { type: "identifier", value: "x" },
+        { type: "symbol", value: "=" },
+        { type: "string", value: "line one\n  line two\n" },
+        { type: "identifier", value: "y" },
+        { type: "symbol", value: "=" },
+        { type: "number", value: 1 },
+      ]);
+    });
+
+    test("strips common indentation from <<- heredocs", () => {
+      const tokens = tokenize(`
+        script = <<-SCRIPT
+          #!/bin/sh
+            echo "hi" // not a comment
+
+          exit 0
+        SCRIPT
+      `);
+      expect(tokens[2]?.value).toBe(
+        '#!/bin/sh\n  echo "hi" // not a comment\n\nexit 0\n',
+      );
+    });
+
+    test("keeps comment markers and escapes verbatim", () => {
+      const tokens = tokenize("x = <<EOF\n# nginx\npath \\n /* raw */\nEOF\n");
+      expect(tokens[2]?.value).toBe("# nginx\npath \\n /* raw */\n");
+    });
+
+    test("tokenizes empty heredocs", () => {
+      expect(tokenize("x = <<EOF\nEOF")[2]?.value).toBe("");
+    });
+
+    test("throws on unterminated heredocs", () => {
+      expect(() => tokenize("x = <<EOF\nno end\n")).toThrow(
+        "Unterminated heredoc EOF",
+      );
+    });
+
+    test("throws when the marker is not followed by a newline", () => {
+      expect(() => tokenize("x = <<EOF text\nEOF")).toThrow(
+        "Expected newline after heredoc marker EOF",
+      );
+    });
+  });
+
   describe("Comments", () => {
     test("removes single-line comments with #", () => {
       const tokens = tokenize(`
         resource # This is a comment
         variable
       `);
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "identifier", value: "resource" },
         { type: "identifier", value: "variable" },
       ]);
@@ -81,7 +195,7 @@ describe("Lexer", () => {
         resource // This is a comment
         variable
       `);
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "identifier", value: "resource" },
         { type: "identifier", value: "variable" },
       ]);
@@ -93,11 +207,119 @@ describe("Lexer", () => {
         multi-line
         comment */ variable
       `);
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "identifier", value: "resource" },
         { type: "identifier", value: "variable" },
       ]);
     });
+
+    test("keeps comment markers inside strings", () => {
+      const tokens = tokenize(
+        'url = "see # anchor"\npath = "a // b" # real\nc = "/* x */"',
+      );
+      expect(
+        tokens.filter((t) => t.type === "string").map((t) => t.value),
+      ).toEqual(["see # anchor", "a // b", "/* x */"]);
+    });
+
+    test("treats # as a comment without leading whitespace", () => {
+      expect(withoutLocations(tokenize("a = 1# one"))).toEqual([
+        { type: "identifier", value: "a" },
+        { type: "symbol", value: "=" },
+        { type: "number", value: 1 },
+      ]);
+    });
+
+    test("throws on unterminated block comments", () => {
+      expect(() => tokenize("a = 1 /* open")).toThrow("Unterminated comment");
+    });
+  });
+
+  describe("Template sequences", () => {
+    test("allows quoted strings inside interpolations", () => {
+      const tokens = tokenize('x = "${join(",", ["a\\"b"])}!\\n"');
+      expect(tokens[2]?.value).toBe('${join(",", ["a\\"b"])}!\n');
+    });
+
+    test("allows quoted strings inside directives", () => {
+      const tokens = tokenize('"%{ if x == "}" }y%{ endif }"');
+      expect(tokens.length).toBe(1);
+      expect(tokens[0]?.value).toBe('%{ if x == "}" }y%{ endif }');
+    });
+
+    test("leaves unterminated sequences to the template parser", () => {
+      expect(tokenize('"${local.x" y')[0]?.value).toBe("${local.x");
+    });
+  });
+
+  describe("Unknown characters", () => {
+    test("throws with the position of the character", () => {
+      expect(() => tokenize("a = 1;")).toThrow("Unexpected character ';'");
+      try {
+        tokenize("a = {\n  b = 1 & 2\n}", "main.hcl");
+        throw new Error("expected an error");
+      } catch (err) {
+        expect((err as HCLParseError).format()).toBe(
+          "main.hcl:2:9: Unexpected character '&'\n2 |   b = 1 & 2\n  |         ^",
+        );
+      }
+    });
+
+    test("accepts characters that only appear in strings and comments", () => {
+      expect(() => tokenize('a = "x; y & z" # ;&@')).not.toThrow();
+    });
+  });
+
+  describe("Scanning", () => {
+    test("returns tokens and comments in one pass", () => {
+      const { tokens, comments } = scan('url = "see # anchor" # docs');
+      expect(tokens.map((t) => t.value)).toEqual(["url", "=", "see # anchor"]);
+      expect(comments.map((c) => [c.text, c.loc.column])).toEqual([
+        ["docs", 22],
+      ]);
+    });
+
+    test("records errors and carries on", () => {
+      const { tokens, errors } = scan('a = @\nb = "x\\q"\nc = "open\nd = 1');
+      expect(errors.map((e) => [e.message, e.loc.line])).toEqual([
+        ["Unexpected character '@'", 1],
+        ["Invalid escape sequence: \\q", 2],
+        ["Unterminated string", 3],
+      ]);
+      expect(tokens.map((t) => t.value)).toEqual([
+        "a",
+        "=",
+        "@",
+        "b",
+        "=",
+        "x",
+        "c",
+        "=",
+        "open",
+        "d",
+        "=",
+        1,
+      ]);
+      expect(() => tokenize("a = @\nb = $")).toThrow(HCLErrorList);
+    });
+
+    test("reads keywords only as whole words", () => {
+      expect(withoutLocations(tokenize("true-ish null_value"))).toEqual([
+        { type: "identifier", value: "true-ish" },
+        { type: "identifier", value: "null_value" },
+      ]);
+    });
+
+    test("handles multi-megabyte input", () => {
+      const line = 'key = "value # not a comment" # <<EOF note\n';
+      const { tokens, comments } = scan(line.repeat(50_000));
+      expect(tokens.length).toBe(150_000);
+      expect(comments.length).toBe(50_000);
+      expect(tokens[tokens.length - 1]?.loc).toMatchObject({
+        line: 50_000,
+        column: 7,
+      });
+    });
   });
 
   describe("Complex expressions", () => {
@@ -105,7 +327,7 @@ describe("Lexer", () => {
       const tokens = tokenize(
         'resource "aws_instance" "web" { ami = "ami-123" }',
       );
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "identifier", value: "resource" },
         { type: "string", value: "aws_instance" },
         { type: "string", value: "web" },
@@ -124,7 +346,7 @@ describe("Lexer", () => {
           count = 5
         }
       `);
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "identifier", value: "config" },
         { type: "symbol", value: "{" },
         { type: "identifier", value: "enabled" },
@@ -141,7 +363,7 @@ describe("Lexer", () => {
       const tokens = tokenize(`
         ports = [80, 443, 8080]
       `);
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "identifier", value: "ports" },
         { type: "symbol", value: "=" },
         { type: "symbol", value: "[" },
@@ -158,17 +380,17 @@ describe("Lexer", () => {
   describe("Edge cases", () => {
     test("handles empty input", () => {
       const tokens = tokenize("");
-      expect(tokens).toEqual([]);
+      expect(withoutLocations(tokens)).toEqual([]);
     });
 
     test("handles whitespace-only input", () => {
       const tokens = tokenize("   \n\t  ");
-      expect(tokens).toEqual([]);
+      expect(withoutLocations(tokens)).toEqual([]);
     });
 
     test("handles identifiers with hyphens", () => {
       const tokens = tokenize("aws-instance my-variable");
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "identifier", value: "aws-instance" },
         { type: "identifier", value: "my-variable" },
       ]);
@@ -176,10 +398,57 @@ describe("Lexer", () => {
 
     test("handles identifiers with underscores", () => {
       const tokens = tokenize("aws_instance my_variable");
-      expect(tokens).toEqual([
+      expect(withoutLocations(tokens)).toEqual([
         { type: "identifier", value: "aws_instance" },
         { type: "identifier", value: "my_variable" },
       ]);
     });
   });
+
+  describe("Locations", () => {
+    test("records line, column and offset of each token", () => {
+      const tokens = tokenize('config {\n  name = "x"\n}', "main.hcl");
+      expect(tokens.map((t) => t.loc)).toEqual([
+        { file: "main.hcl", line: 1, column: 1, offset: 0 },
+        { file: "main.hcl", line: 1, column: 8, offset: 7 },
+        { file: "main.hcl", line: 2, column: 3, offset: 11 },
+        { file: "main.hcl", line: 2, column: 8, offset: 16 },
+        { file: "main.hcl", line: 2, column: 10, offset: 18 },
+        { file: "main.hcl", line: 3, column: 1, offset: 22 },
+      ]);
+    });
+
+    test("keeps positions accurate after comments", () => {
+      const tokens = tokenize("/* a\n b */ x # c\ny");
+      expect(tokens.map((t) => [t.loc.line, t.loc.column])).toEqual([
+        [2, 7],
+        [3, 1],
+      ]);
+    });
+
+    test("defaults the file name", () => {
+      expect(tokenize("x")[0]?.loc.file).toBe("<input>");
+    });
+  });
+
+  describe("Comment scanning", () => {
+    test("collects comments with their locations", () => {
+      const comments = scanComments(
+        '# Web tier\nweb { // inline\n  a = "#x"\n}',
+      );
+      expect(comments.map((c) => [c.text, c.loc.line, c.loc.column])).toEqual([
+        ["Web tier", 1, 1],
+        ["inline", 2, 7],
+      ]);
+    });
+
+    test("strips block comment delimiters and leading stars", () => {
+      const comments = scanComments("/*\n * First\n * Second\n */\nx = 1");
+      expect(comments.map((c) => c.text)).toEqual(["First\nSecond"]);
+    });
+
+    test("skips comment markers inside heredocs", () => {
+      expect(scanComments("x = <<EOF\n# body\nEOF\n")).toEqual([]);
+    });
+  });
 });
@@ -1,5 +1,17 @@
-import { test, expect, describe } from "bun:test";
-import { parseHCL } from "../src/parser/parser";
+import { test, expect, describe, beforeAll, afterAll } from "bun:test";
+import {
+  mkdtempSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseHCL, parseHCLFiles } from "../src/parser/parser";
+import { HCLErrorList, HCLParseError } from "../src/parser/errors";
+import { getComments } from "../src/parser/comments";
+import { parseDirective } from "../src/directives/parser";
 
 describe("Parser", () => {
   describe("Simple values", () => {
@@ -31,6 +43,16 @@ describe("Parser", () => {
       });
     });
 
+    test("parses null", () => {
+      const result = parseHCL("config { value = null list = [1, null] }");
+      expect(result).toEqual({
+        config: {
+          value: null,
+          list: [1, null],
+        },
+      });
+    });
+
     test("parses negative numbers", () => {
       const result = parseHCL("config { temperature = -5 }");
       expect(result).toEqual({
@@ -52,9 +74,7 @@ describe("Parser", () => {
     });
 
     test("parses string arrays", () => {
-      const result = parseHCL(
-        'config { names = ["alice", "bob", "charlie"] }',
-      );
+      const result = parseHCL('config { names = ["alice", "bob", "charlie"] }');
       expect(result).toEqual({
         config: {
           names: ["alice", "bob", "charlie"],
@@ -125,6 +145,151 @@ describe("Parser", () => {
     });
   });
 
+  describe("Object literals", () => {
+    test("parses single-line objects with commas", () => {
+      const result = parseHCL(`
+        ports = [{ name = "http", port = 80 }, { name = "https", port = 443 }]
+      `);
+      expect(result.ports).toEqual([
+        { name: "http", port: 80 },
+        { name: "https", port: 443 },
+      ]);
+    });
+
+    test("accepts colons instead of equals signs", () => {
+      const result = parseHCL(`env = [{ name: "MODE", value: "prod" }]`);
+      expect(result.env).toEqual([{ name: "MODE", value: "prod" }]);
+    });
+
+    test("accepts trailing commas and mixed separators", () => {
+      const result = parseHCL(`
+        limits = {
+          cpu = "500m",
+          memory: "256Mi",
+          "ephemeral-storage" = "1Gi"
+        }
+        empty = { a = 1, }
+      `);
+      expect(result).toEqual({
+        limits: { cpu: "500m", memory: "256Mi", "ephemeral-storage": "1Gi" },
+        empty: { a: 1 },
+      });
+    });
+
+    test("keeps conditionals inside object values", () => {
+      expect(parseHCL("x = { a: true ? 1 : 2, b = 3 }").x).toEqual({
+        a: 1,
+        b: 3,
+      });
+    });
+
+    test("keeps block syntax unchanged", () => {
+      expect(() => parseHCL("config {\n  name: 1\n}")).toThrow(
+        "Expected '=' or '{', got ':'",
+      );
+    });
+
+    test("recovers after the comma following a malformed item", () => {
+      try {
+        parseHCL("x = { a = = 1, b = , c = 3 }");
+        throw new Error("expected an error");
+      } catch (err) {
+        expect((err as HCLErrorList).errors.map((e) => e.loc.column)).toEqual([
+          11, 20,
+        ]);
+      }
+    });
+  });
+
+  describe("Quoted and computed keys", () => {
+    test("accepts quoted keys in blocks", () => {
+      const result = parseHCL(`
+        metadata {
+          labels {
+            "app.kubernetes.io/name" = "web"
+          }
+          annotations {
+            "prometheus.io/scrape" = "true"
+          }
+        }
+      `);
+      expect(result).toEqual({
+        metadata: {
+          labels: { "app.kubernetes.io/name": "web" },
+          annotations: { "prometheus.io/scrape": "true" },
+        },
+      });
+    });
+
+    test("accepts quoted keys in object literals", () => {
+      const result = parseHCL(`
+        labels = {
+          "app.kubernetes.io/name" = "web"
+          tier = "frontend"
+        }
+      `);
+      expect(result.labels).toEqual({
+        "app.kubernetes.io/name": "web",
+        tier: "frontend",
+      });
+    });
+
+    test("reads quoted keys and strings that look like closing brackets", () => {
+      const result = parseHCL(`
+        z = { "}" = 1, "]" = "}" }
+        block {
+          "}" = 2
+        }
+        l = ["]", "}", ","]
+      `);
+      expect(result).toEqual({
+        z: { "}": 1, "]": "}" },
+        block: { "}": 2 },
+        l: ["]", "}", ","],
+      });
+    });
+
+    test("evaluates templates in quoted keys", () => {
+      const result = parseHCL(`
+        locals {
+          prefix = "example.com"
+        }
+        labels = {
+          "\${local.prefix}/team" = "platform"
+        }
+      `);
+      expect(result.labels).toEqual({ "example.com/team": "platform" });
+    });
+
+    test("evaluates parenthesized keys in object literals", () => {
+      const result = parseHCL(`
+        locals {
+          key = "env"
+        }
+        tags = {
+          (local.key) = "prod"
+          (1 + 1) = "two"
+        }
+      `);
+      expect(result.tags).toEqual({ env: "prod", "2": "two" });
+    });
+
+    test("rejects keys that are not strings", () => {
+      expect(() => parseHCL("tags = {\n  ([1]) = 1\n}")).toThrow(
+        "Object key must be a string, got list",
+      );
+    });
+
+    test("requires identifiers for block types", () => {
+      expect(() => parseHCL("config {\n  (x) = 1\n}")).toThrow(
+        "Expected identifier, got symbol",
+      );
+      expect(() => parseHCL('"config" {\n}')).toThrow(
+        "Expected identifier, got string",
+      );
+    });
+  });
+
   describe("Terraform/HCL-style named blocks", () => {
     test("parses resource blocks", () => {
       const result = parseHCL(`
@@ -145,21 +310,15 @@ describe("Parser", () => {
       });
     });
 
-    test("parses variable blocks", () => {
+    test("uses variable blocks as inputs", () => {
       const result = parseHCL(`
         variable "region" {
           default = "us-west-2"
           type = "string"
         }
+        region = var.region
       `);
-      expect(result).toEqual({
-        variable: {
-          region: {
-            default: "us-west-2",
-            type: "string",
-          },
-        },
-      });
+      expect(result).toEqual({ region: "us-west-2" });
     });
 
     test("parses multiple resources", () => {
@@ -186,6 +345,202 @@ describe("Parser", () => {
     });
   });
 
+  describe("Top-level attributes", () => {
+    test("parses root-level assignments", () => {
+      const result = parseHCL(`
+        AWSTemplateFormatVersion = "2010-09-09"
+        Description = "My stack"
+      `);
+      expect(result).toEqual({
+        AWSTemplateFormatVersion: "2010-09-09",
+        Description: "My stack",
+      });
+    });
+
+    test("parses attributes and blocks intermixed", () => {
+      const result = parseHCL(`
+        version = 2
+        Resources {
+          Bucket {
+            Type = "AWS::S3::Bucket"
+          }
+        }
+        tags = ["a", "b"]
+        resource "aws_instance" "web" {
+          ami = "ami-123"
+        }
+      `);
+      expect(result).toEqual({
+        version: 2,
+        Resources: {
+          Bucket: {
+            Type: "AWS::S3::Bucket",
+          },
+        },
+        tags: ["a", "b"],
+        resource: {
+          aws_instance: {
+            web: {
+              ami: "ami-123",
+            },
+          },
+        },
+      });
+    });
+
+    test("parses labeled blocks inside nested bodies", () => {
+      const result = parseHCL(`
+        resource "aws_instance" "web" {
+          provisioner "local-exec" {
+            command = "echo hi"
+          }
+        }
+      `);
+      expect(result).toEqual({
+        resource: {
+          aws_instance: {
+            web: {
+              provisioner: {
+                "local-exec": {
+                  command: "echo hi",
+                },
+              },
+            },
+          },
+        },
+      });
+    });
+
+    test("treats blocks named like Object.prototype members as plain keys", () => {
+      const result = parseHCL(`
+        constructor {
+          a = 1
+        }
+        constructor {
+          a = 2
+        }
+        __proto__ {
+          b = 2
+        }
+        app {
+          toString "x" {
+            c = 3
+          }
+          valueOf {
+            d = 4
+          }
+        }
+      `);
+      expect(Object.keys(result)).toEqual(["constructor", "__proto__", "app"]);
+      expect(JSON.parse(JSON.stringify(result))).toEqual(
+        JSON.parse(
+          '{"constructor":[{"a":1},{"a":2}],"__proto__":{"b":2},' +
+            '"app":{"toString":{"x":{"c":3}},"valueOf":{"d":4}}}',
+        ),
+      );
+    });
+
+    test("throws when a block has no body", () => {
+      expect(() => parseHCL('config "name" 5')).toThrow(
+        "Expected '=' or '{', got '5'",
+      );
+    });
+  });
+
+  describe("Repeated blocks", () => {
+    const ingress = `
+      security_group {
+        ingress {
+          port = 80
+        }
+        ingress {
+          port = 443
+        }
+      }
+    `;
+
+    test("collects repeated blocks into a list by default", () => {
+      expect(parseHCL(ingress)).toEqual({
+        security_group: {
+          ingress: [{ port: 80 }, { port: 443 }],
+        },
+      });
+    });
+
+    test("keeps declaration order for three or more blocks", () => {
+      const result = parseHCL(`
+        Deployment { name = "a" }
+        Deployment { name = "b" }
+        Deployment { name = "c" }
+      `);
+      expect(result).toEqual({
+        Deployment: [{ name: "a" }, { name: "b" }, { name: "c" }],
+      });
+    });
+
+    test("collects repeated label paths at the leaf", () => {
+      const result = parseHCL(`
+        resource "aws_instance" "web" { ami = "ami-1" }
+        resource "aws_instance" "db" { ami = "ami-2" }
+        resource "aws_instance" "web" { ami = "ami-3" }
+      `);
+      expect(result).toEqual({
+        resource: {
+          aws_instance: {
+            web: [{ ami: "ami-1" }, { ami: "ami-3" }],
+            db: { ami: "ami-2" },
+          },
+        },
+      });
+    });
+
+    test("does not append blocks to array literals", () => {
+      const result = parseHCL(`
+        config {
+          ports = [80]
+        }
+        config {
+          ports = [443]
+        }
+      `);
+      expect(result).toEqual({
+        config: [{ ports: [80] }, { ports: [443] }],
+      });
+    });
+
+    test("rejects duplicates with the error policy", () => {
+      expect(() => parseHCL(ingress, { duplicateBlocks: "error" })).toThrow(
+        "Duplicate block 'ingress' (first defined at line 3)",
+      );
+    });
+
+    test("keeps the last block with the last-wins policy", () => {
+      expect(parseHCL(ingress, { duplicateBlocks: "last-wins" })).toEqual({
+        security_group: {
+          ingress: { port: 443 },
+        },
+      });
+    });
+
+    test("throws when labels nest under a non-object value", () => {
+      expect(() =>
+        parseHCL(`
+          resource {}
+          resource {}
+          resource "aws_instance" "web" {}
+        `),
+      ).toThrow(
+        "Block 'resource.aws_instance.web' conflicts with non-object value 'resource'",
+      );
+      expect(() =>
+        parseHCL(`
+          resource = "x"
+          resource "aws_instance" "web" {}
+        `),
+      ).toThrow("Duplicate block 'resource' (first defined at line 2)");
+    });
+  });
+
   describe("Comments", () => {
     test("ignores single-line comments", () => {
       const result = parseHCL(`
@@ -217,6 +572,36 @@ describe("Parser", () => {
         },
       });
     });
+
+    test("attaches comments to the following attribute or block", () => {
+      const result = parseHCL(`
+        # Web tier
+        web {
+          # Listening port
+          port = 80 # http
+          ports = [
+            80, # dropped: inside a value
+          ]
+          # dropped: nothing follows
+        }
+      `);
+      const web = result.web as Record<string, unknown>;
+      expect(getComments(result, "web")).toEqual(["Web tier"]);
+      expect(getComments(web, "port")).toEqual(["Listening port", "http"]);
+      expect(getComments(web, "ports")).toBeUndefined();
+    });
+
+    test("attaches comments of repeated blocks to list elements", () => {
+      const result = parseHCL(`
+        # First
+        server { name = "a" }
+        # Second
+        server { name = "b" }
+      `);
+      expect(getComments(result, "server")).toBeUndefined();
+      expect(getComments(result.server as object, 0)).toEqual(["First"]);
+      expect(getComments(result.server as object, 1)).toEqual(["Second"]);
+    });
   });
 
   describe("Complex structures", () => {
@@ -264,5 +649,400 @@ describe("Parser", () => {
     test("throws on mismatched braces", () => {
       expect(() => parseHCL("config { name = ")).toThrow();
     });
+
+    test("throws HCLParseError with location and code frame", () => {
+      let caught: unknown;
+      try {
+        parseHCL('config {\n  name = = "x"\n}', { file: "main.hcl" });
+      } catch (err) {
+        caught = err;
+      }
+      expect(caught).toBeInstanceOf(HCLParseError);
+      const err = caught as HCLParseError;
+      expect(err.message).toBe("Unexpected token: =");
+      expect(err.loc).toEqual({
+        file: "main.hcl",
+        line: 2,
+        column: 10,
+        offset: 18,
+      });
+      expect(err.format()).toBe(
+        'main.hcl:2:10: Unexpected token: =\n2 |   name = = "x"\n  |          ^',
+      );
+    });
+
+    test("points end-of-input errors at the last character", () => {
+      try {
+        parseHCL("config {\n  name = 1\n");
+        throw new Error("expected parse error");
+      } catch (err) {
+        expect((err as HCLParseError).loc).toMatchObject({
+          line: 2,
+          column: 11,
+        });
+      }
+    });
+  });
+
+  describe("Error recovery", () => {
+    /**
+     * Parses input that must fail and returns every reported problem.
+     */
+    function problems(input: string): string[] {
+      try {
+        parseHCL(input);
+      } catch (err) {
+        const errors = err instanceof HCLErrorList ? err.errors : [err];
+        return (errors as HCLParseError[]).map(
+          (e) => `${e.loc.line}:${e.loc.column}: ${e.message}`,
+        );
+      }
+      throw new Error("expected an error");
+    }
+
+    test("reports every malformed attribute", () => {
+      expect(problems("a = = 1\nb = 2\nc = = 3\n")).toEqual([
+        "1:5: Unexpected token: =",
+        "3:5: Unexpected token: =",
+      ]);
+    });
+
+    test("recovers inside blocks and keeps parsing after them", () => {
+      const input = `app {
+  name = = "x"
+  port = 80
+  nested {
+    x = ]
+  }
+}
+other "label" 5 {
+}
+ok = 1
+`;
+      expect(problems(input)).toEqual([
+        "2:10: Unexpected token: =",
+        "5:9: Unexpected token: ]",
+        "8:15: Expected '=' or '{', got '5'",
+      ]);
+    });
+
+    test("skips to the end of brackets opened by a malformed item", () => {
+      expect(problems("list = [\n  1,\n  = 2\n]\nnext = = 3\n")).toEqual([
+        "3:3: Unexpected token: =",
+        "5:8: Unexpected token: =",
+      ]);
+    });
+
+    test("stops at the brace closing the enclosing block", () => {
+      expect(problems("b { a = }\nc = 1 +\n")).toEqual([
+        "1:9: Unexpected token: }",
+        "2:8: Unexpected end of input",
+      ]);
+    });
+
+    test("reports every lexical error alongside syntax errors", () => {
+      expect(problems("a = @\nb = $\nc = = 1\nd = 1\n")).toEqual([
+        "1:5: Unexpected character '@'",
+        "2:5: Unexpected character '$'",
+        "3:5: Unexpected token: =",
+      ]);
+      expect(problems('a = "x\\q"\nb = "open\nc = 1 /* open')).toEqual([
+        "1:7: Invalid escape sequence: \\q",
+        "2:5: Unterminated string",
+        "3:7: Unterminated comment",
+      ]);
+    });
+
+    test("reports every evaluation error once", () => {
+      const input = `locals {
+  bad = upper([])
+}
+x = "\${local.nope}"
+y = 1 / 0
+u = local.bad
+v = local.bad
+`;
+      expect(problems(input)).toEqual([
+        "2:15: Error in function call 'upper': Invalid argument 1: expected string, got list",
+        "4:5: Unknown local value 'local.nope'",
+        "5:9: Division by zero",
+      ]);
+    });
+
+    test("behaves like the first error and formats all of them", () => {
+      try {
+        parseHCL("a = = 1\nb = = 2", { file: "main.hcl" });
+        throw new Error("expected an error");
+      } catch (err) {
+        expect(err).toBeInstanceOf(HCLErrorList);
+        expect(err).toBeInstanceOf(HCLParseError);
+        const list = err as HCLErrorList;
+        expect(list.message).toBe("Unexpected token: =");
+        expect(list.loc.line).toBe(1);
+        expect(list.format()).toBe(
+          "main.hcl:1:5: Unexpected token: =\n1 | a = = 1\n  |     ^\n\n" +
+            "main.hcl:2:5: Unexpected token: =\n2 | b = = 2\n  |     ^",
+        );
+      }
+    });
+  });
+
+  describe("Multiple files", () => {
+    /**
+     * Lists the problems found in the files as `file:line: message`.
+     */
+    function problems(files: Record<string, string>): string[] {
+      const sources = Object.entries(files).map(([file, source]) => ({
+        file,
+        source,
+      }));
+      try {
+        parseHCLFiles(sources);
+      } catch (err) {
+        const errors = err instanceof HCLErrorList ? err.errors : [err];
+        return (errors as HCLParseError[]).map(
+          (e) => `${e.loc.file}:${e.loc.line}: ${e.message}`,
+        );
+      }
+      throw new Error("expected an error");
+    }
+
+    test("merges files in order, sharing locals and variables", () => {
+      const result = parseHCLFiles([
+        {
+          file: "variables.hcl",
+          source: 'variable "env" {\n  default = "prod"\n}',
+        },
+        {
+          file: "service.hcl",
+          source: 'Service {\n  name = "${local.name}-svc"\n}',
+        },
+        {
+          file: "deployment.hcl",
+          source: 'locals {\n  name = "web-${var.env}"\n}\nDeployment {}',
+        },
+      ]);
+      expect(result).toEqual({
+        Service: { name: "web-prod-svc" },
+        Deployment: {},
+      });
+      expect(Object.keys(result)).toEqual(["Service", "Deployment"]);
+    });
+
+    test("combines repeated blocks across files", () => {
+      const sources = [
+        { file: "a.hcl", source: "rule {\n  port = 80\n}" },
+        { file: "b.hcl", source: "rule {\n  port = 443\n}" },
+      ];
+      expect(parseHCLFiles(sources)).toEqual({
+        rule: [{ port: 80 }, { port: 443 }],
+      });
+      expect(() =>
+        parseHCLFiles(sources, { duplicateBlocks: "error" }),
+      ).toThrow("Duplicate block 'rule' (first defined at a.hcl:1)");
+    });
+
+    test("reports keys defined in more than one file", () => {
+      expect(
+        problems({
+          "a.hcl": 'name = "web"\nlocals {\n  port = 80\n}',
+          "b.hcl": 'name = "api"\nlocals {\n  port = 8080\n}',
+        }),
+      ).toEqual([
+        "b.hcl:1: Duplicate attribute 'name' (first defined at a.hcl:1)",
+        "b.hcl:3: Duplicate local value 'port' (first defined at a.hcl:3)",
+      ]);
+    });
+
+    test("reports attributes and blocks sharing a name", () => {
+      expect(
+        problems({
+          "a.hcl": 'x {\n  a = 1\n}\nr "a" {\n  x = 1\n}\ny = 1',
+          "b.hcl": "x = 2\nr = 5\ny {\n  b = 2\n}",
+        }),
+      ).toEqual([
+        "b.hcl:1: Duplicate attribute 'x' (first defined at a.hcl:1)",
+        "b.hcl:2: Duplicate attribute 'r' (first defined at a.hcl:4)",
+        "b.hcl:3: Duplicate block 'y' (first defined at a.hcl:7)",
+      ]);
+      expect(problems({ "a.hcl": "a {\n  b = 2\n}\na = 1" })).toEqual([
+        "a.hcl:4: Duplicate attribute 'a' (first defined at line 1)",
+      ]);
+    });
+
+    test("reports keys defined twice in one file", () => {
+      expect(problems({ "a.hcl": "x = 1\ny = 2\nx = 3" })).toEqual([
+        "a.hcl:3: Duplicate attribute 'x' (first defined at line 1)",
+      ]);
+    });
+
+    test("reports the problems of every file in file order", () => {
+      expect(
+        problems({
+          "b.hcl": "x = = 1",
+          "a.hcl": "y = {",
+        }),
+      ).toEqual([
+        "b.hcl:1: Unexpected token: =",
+        "a.hcl:1: Unexpected end of input",
+      ]);
+    });
+
+    test("renders code frames from the file each error is in", () => {
+      try {
+        parseHCLFiles([
+          { file: "a.hcl", source: "a = 1" },
+          { file: "b.hcl", source: "b = 2\nc = local.nope" },
+        ]);
+        throw new Error("expected an error");
+      } catch (err) {
+        expect((err as HCLParseError).format()).toBe(
+          "b.hcl:2:11: Unknown local value 'local.nope'\n" +
+            "2 | c = local.nope\n" +
+            "  |           ^",
+        );
+      }
+    });
+  });
+
+  describe("Includes and imports", () => {
+    let dir: string;
+
+    /**
+     * Writes a file below the temporary directory.
+     */
+    function write(path: string, content: string): string {
+      writeFileSync(join(dir, path), content);
+      return join(dir, path);
+    }
+
+    /**
+     * Parses a file below the temporary directory.
+     */
+    function parseFile(path: string) {
+      const file = join(dir, path);
+      return parseHCL(readFileSync(file, "utf8"), { file });
+    }
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), "hcl-includes-"));
+      mkdirSync(join(dir, "common"));
+      write(
+        "common/labels.hcl",
+        'locals {\n  team = "platform"\n}\nlabels = {\n  team = local.team\n}',
+      );
+      write(
+        "common/vars.hcl",
+        'include "labels.hcl"\nquery {\n  name = "env"\n}',
+      );
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("reads directives from the file header", () => {
+      const result = parseDirective(
+        '# Stack\nuse kubernetes\ninclude "a.hcl" # shared\nimport "b.hcl" as b\n\nx = 1',
+      );
+      expect(result.serviceType).toBe("kubernetes");
+      expect(result.includes).toEqual([
+        { kind: "include", path: "a.hcl", offset: 23 },
+        { kind: "import", path: "b.hcl", name: "b", offset: 48 },
+      ]);
+      expect(result.cleanedInput).toBe(
+        `# Stack\n${" ".repeat(14)}\n${" ".repeat(15)} # shared\n${" ".repeat(19)}\n\nx = 1`,
+      );
+    });
+
+    test("does not mistake blocks for directives", () => {
+      expect(parseDirective('include "a" {\n}').includes).toEqual([]);
+      expect(parseDirective('x = 1\ninclude "a.hcl"').includes).toEqual([]);
+    });
+
+    test("merges included files, relative to the including file", () => {
+      write("main.hcl", 'include "common/vars.hcl"\n\napp = "web"');
+      expect(parseFile("main.hcl")).toEqual({
+        labels: { team: "platform" },
+        query: { name: "env" },
+        app: "web",
+      });
+    });
+
+    test("binds imported files to a name", () => {
+      write(
+        "import.hcl",
+        'import "common/labels.hcl" as common\n\nmetadata {\n  labels = merge(common.labels, { app = "web" })\n}',
+      );
+      expect(parseFile("import.hcl")).toEqual({
+        metadata: { labels: { team: "platform", app: "web" } },
+      });
+    });
+
+    test("includes a file only once", () => {
+      write(
+        "twice.hcl",
+        'include "common/labels.hcl"\ninclude "common/vars.hcl"',
+      );
+      expect(parseFile("twice.hcl")).toEqual({
+        labels: { team: "platform" },
+        query: { name: "env" },
+      });
+    });
+
+    test("detects include cycles", () => {
+      write("a.hcl", 'include "b.hcl"\na = 1');
+      write("b.hcl", 'import "a.hcl" as a\nb = 1');
+      expect(() => parseFile("a.hcl")).toThrow(
+        `Cycle detected: ${join(dir, "a.hcl")} -> ${join(dir, "b.hcl")} -> ${join(dir, "a.hcl")}`,
+      );
+    });
+
+    test("reports missing files at the directive", () => {
+      write("missing.hcl", 'x = 1\n\ninclude "nope.hcl"');
+      expect(() => parseFile("missing.hcl")).toThrow("Unexpected end of input");
+      write("missing.hcl", '# Shared\ninclude "nope.hcl"');
+      try {
+        parseFile("missing.hcl");
+        throw new Error("expected an error");
+      } catch (err) {
+        const parseError = err as HCLParseError;
+        expect(parseError.message).toBe(
+          "Cannot include 'nope.hcl': no such file",
+        );
+        expect(parseError.loc.line).toBe(2);
+      }
+    });
+
+    test("points errors into the included file", () => {
+      write("broken.hcl", "labels = {\n  team = local.nope\n}");
+      write("uses-broken.hcl", 'include "broken.hcl"');
+      try {
+        parseFile("uses-broken.hcl");
+        throw new Error("expected an error");
+      } catch (err) {
+        expect((err as HCLParseError).format()).toBe(
+          `${join(dir, "broken.hcl")}:2:16: Unknown local value 'local.nope'\n` +
+            "2 |   team = local.nope\n" +
+            "  |                ^",
+        );
+      }
+    });
+
+    test("rejects reserved and repeated import names", () => {
+      write(
+        "names.hcl",
+        'import "common/labels.hcl" as var\nimport "common/labels.hcl" as c\nimport "common/vars.hcl" as c',
+      );
+      try {
+        parseFile("names.hcl");
+        throw new Error("expected an error");
+      } catch (err) {
+        expect((err as HCLErrorList).errors.map((e) => e.message)).toEqual([
+          "Cannot import as 'var', which is reserved",
+          "Duplicate import 'c'",
+        ]);
+      }
+    });
   });
 });
@@ -0,0 +1,194 @@
+import { test, expect, describe } from "bun:test";
+import { parseHCL } from "../src/parser/parser";
+import type { HCLParseError } from "../src/parser/errors";
+
+/**
+ * Parses `value = <expr>` alongside the given locals and returns the value.
+ */
+function render(expr: string, locals = ""): unknown {
+  return parseHCL(`locals {\n${locals}\n}\nvalue = ${expr}`).value;
+}
+
+describe("Templates", () => {
+  describe("Interpolation", () => {
+    test("interpolates locals", () => {
+      expect(render('"hello ${local.name}!"', 'name = "world"')).toBe(
+        "hello world!",
+      );
+    });
+
+    test("interpolates variable defaults", () => {
+      const result = parseHCL(`
+        variable "env" {
+          default = "prod"
+        }
+        app {
+          name = "web-\${var.env}"
+        }
+      `);
+      expect(result.app).toEqual({ name: "web-prod" });
+    });
+
+    test("resolves locals referencing other locals in any order", () => {
+      const locals = `
+        full = "\${local.name}-\${local.suffix}"
+        name = "api"
+        suffix = "v1"
+      `;
+      expect(render('"${local.full}"', locals)).toBe("api-v1");
+    });
+
+    test("keeps the type of a lone interpolation", () => {
+      expect(render('"${local.ports}"', "ports = [80, 443]")).toEqual([
+        80, 443,
+      ]);
+      expect(render('"${local.count}"', "count = 3")).toBe(3);
+    });
+
+    test("stringifies numbers and booleans inside text", () => {
+      expect(render('"${local.n}/${local.b}"', "n = 1.5\nb = false")).toBe(
+        "1.5/false",
+      );
+    });
+
+    test("supports attribute and index traversal", () => {
+      const locals = `
+        ports = [80, 443]
+        db = {
+          host = "localhost"
+        }
+      `;
+      expect(render('"${local.db.host}:${local.ports[1]}"', locals)).toBe(
+        "localhost:443",
+      );
+    });
+
+    test("interpolates inside heredocs", () => {
+      expect(render("<<EOF\nname: ${local.name}\nEOF", 'name = "web"')).toBe(
+        "name: web\n",
+      );
+    });
+    test("allows quoted strings inside interpolations", () => {
+      expect(render('"${join(", ", ["a", "b"])} # ${upper("x")}"')).toBe(
+        "a, b # X",
+      );
+    });
+  });
+
+  describe("Escapes", () => {
+    test("emits $${ and %%{ literally", () => {
+      expect(render('"arn:$${AWS::Partition}:s3 %%{ x }"')).toBe(
+        "arn:${AWS::Partition}:s3 %{ x }",
+      );
+    });
+
+    test("leaves strings without sequences untouched", () => {
+      expect(render('"cost: $5 and 100%"')).toBe("cost: $5 and 100%");
+    });
+  });
+
+  describe("Directives", () => {
+    test("renders if/else", () => {
+      const locals = "on = true\noff = false";
+      expect(render('"%{ if local.on }yes%{ else }no%{ endif }"', locals)).toBe(
+        "yes",
+      );
+      expect(
+        render('"%{ if local.off }yes%{ else }no%{ endif }"', locals),
+      ).toBe("no");
+      expect(render('"[%{ if local.off }x%{ endif }]"', locals)).toBe("[]");
+    });
+
+    test("renders for loops over lists", () => {
+      expect(
+        render('"%{ for p in local.ports }${p},%{ endfor }"', "ports = [1, 2]"),
+      ).toBe("1,2,");
+    });
+
+    test("renders for loops with keys", () => {
+      const locals = 'labels {\n app = "web"\n tier = "fe"\n}';
+      expect(
+        render('"%{ for k, v in local.labels }${k}=${v};%{ endfor }"', locals),
+      ).toBe("app=web;tier=fe;");
+    });
+
+    test("applies strip markers", () => {
+      const template = `<<EOF
+items:
+%{ for p in local.ports ~}
+  - \${p}
+%{ endfor ~}
+EOF`;
+      expect(render(template, "ports = [80, 443]")).toBe(
+        "items:\n- 80\n- 443\n",
+      );
+      expect(render('"a  ${~ local.x ~}  b"', 'x = "-"')).toBe("a-b");
+    });
+  });
+
+  describe("Errors", () => {
+    test("throws on unknown references at the string location", () => {
+      try {
+        parseHCL('x = 1\ny = "${local.missing}"', { file: "t.hcl" });
+        throw new Error("expected error");
+      } catch (err) {
+        expect((err as HCLParseError).message).toBe(
+          "Unknown local value 'local.missing'",
+        );
+        expect((err as HCLParseError).loc).toMatchObject({
+          line: 2,
+          column: 5,
+        });
+      }
+    });
+
+    test("throws on unknown variables", () => {
+      expect(() => render('"${var.region}"')).toThrow(
+        "Unknown variable 'var.region'",
+      );
+      expect(() => render('"${foo}"')).toThrow("Unknown variable 'foo'");
+    });
+
+    test("throws on variables without defaults", () => {
+      expect(() =>
+        parseHCL('variable "region" {}\nx = "${var.region}"'),
+      ).toThrow("Variable 'region' has no default value");
+    });
+
+    test("throws on reference cycles", () => {
+      expect(() =>
+        render('"${local.a}"', 'a = "${local.b}"\nb = "${local.a}"'),
+      ).toThrow("Cycle detected: local.b -> local.a -> local.b");
+    });
+
+    test("throws on interpolating collections into text", () => {
+      expect(() => render('"ports: ${local.ports}"', "ports = [1]")).toThrow(
+        "Cannot interpolate a list value",
+      );
+    });
+
+    test("throws on unbalanced directives", () => {
+      expect(() => render('"%{ if true }x"')).toThrow(
+        "Missing '%{ endif }' directive",
+      );
+      expect(() => render('"%{ endfor }"')).toThrow(
+        "Unexpected template directive 'endfor'",
+      );
+      expect(() => render('"${local.x"')).toThrow(
+        "Unterminated template sequence '${'",
+      );
+    });
+
+    test("throws on non-boolean conditions", () => {
+      expect(() => render('"%{ if local.n }x%{ endif }"', "n = 1")).toThrow(
+        "Condition must be a boolean, got number",
+      );
+    });
+
+    test("throws on out of range indexes", () => {
+      expect(() => render('"${local.p[2]}"', "p = [1]")).toThrow(
+        "Index 2 out of range for list of length 1",
+      );
+    });
+  });
+});
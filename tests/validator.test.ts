@@ -1,5 +1,20 @@
 import { test, expect, describe } from "bun:test";
-import { validateHCL } from "../src/validation/validator";
+import { parseHCL } from "../src/parser/parser";
+import {
+  SchemaValidationError,
+  validateHCL,
+} from "../src/validation/validator";
+import {
+  kubernetesDocuments,
+  validateKubernetes,
+} from "../src/validation/services/kubernetes";
+
+/**
+ * Builds a minimal Kubernetes resource.
+ */
+function resource(kind: string, name: string, extra: object = {}) {
+  return { apiVersion: "v1", kind, metadata: { name }, ...extra };
+}
 
 describe("Validator", () => {
   describe("Valid schemas", () => {
@@ -25,6 +40,14 @@ describe("Validator", () => {
       expect(() => validateHCL(data)).not.toThrow();
     });
 
+    test("validates keys named like Object.prototype members", () => {
+      const data = parseHCL(
+        'a = { for s in ["constructor", "toString"] : s => 1 }',
+      );
+      expect(() => validateHCL(data)).not.toThrow();
+      expect(() => validateHCL({ a: { constructor: [1] } })).not.toThrow();
+    });
+
     test("validates arrays", () => {
       const data = {
         config: {
@@ -45,6 +68,16 @@ describe("Validator", () => {
       expect(() => validateHCL(data)).not.toThrow();
     });
 
+    test("validates null values", () => {
+      const data = {
+        config: {
+          cleared: null,
+          list: [null, 1],
+        },
+      };
+      expect(() => validateHCL(data)).not.toThrow();
+    });
+
     test("validates terraform-style resources", () => {
       const data = {
         resource: {
@@ -80,6 +113,21 @@ describe("Validator", () => {
     });
   });
 
+  describe("Keys", () => {
+    test("accepts any string as a nested key", () => {
+      const data = {
+        metadata: {
+          labels: { "app.kubernetes.io/name": "web", "123": "x" },
+        },
+      };
+      expect(() => validateHCL(data)).not.toThrow();
+    });
+
+    test("accepts hyphens in root identifiers", () => {
+      expect(() => validateHCL({ "web-app": { port: 80 } })).not.toThrow();
+    });
+  });
+
   describe("Invalid schemas", () => {
     test("throws on invalid identifier in root key", () => {
       const data = {
@@ -98,6 +146,76 @@ describe("Validator", () => {
       };
       expect(() => validateHCL(data)).toThrow("Schema validation failed");
     });
+
+    test("lists every issue", () => {
+      const data = {
+        "bad.key": { value: "a" },
+        "123": { value: "b" },
+      };
+      try {
+        validateHCL(data);
+        throw new Error("expected a validation error");
+      } catch (err) {
+        expect(err).toBeInstanceOf(SchemaValidationError);
+        const { issues } = err as SchemaValidationError;
+        expect(issues.length).toBe(2);
+        expect(issues.map((i) => i.path).sort()).toEqual(["123", "bad.key"]);
+      }
+    });
+  });
+
+  describe("Kubernetes bundles", () => {
+    test("splits blocks, repeated blocks and labeled blocks", () => {
+      const ns = resource("Namespace", "app");
+      const [a, b] = [resource("ConfigMap", "a"), resource("ConfigMap", "b")];
+      const web = resource("Service", "web", { spec: {} });
+      const data = { Namespace: ns, ConfigMap: [a, b], Service: { web } };
+
+      expect(kubernetesDocuments(data)).toEqual([
+        { path: ["Namespace"], resource: ns },
+        { path: ["ConfigMap", 0], resource: a },
+        { path: ["ConfigMap", 1], resource: b },
+        { path: ["Service", "web"], resource: web },
+      ]);
+    });
+
+    test("treats a file with a kind as a single resource", () => {
+      const ns = resource("Namespace", "app");
+      expect(kubernetesDocuments(ns)).toEqual([{ path: [], resource: ns }]);
+      expect(() => validateKubernetes(ns)).not.toThrow();
+    });
+
+    test("validates each resource against the schema of its kind", () => {
+      const data = {
+        Namespace: { ...resource("Namespace", "app"), kind: 3 },
+        Service: [
+          resource("Service", "web", { spec: { type: "ClusterIP" } }),
+          resource("Service", "api", { spec: { type: "Internal" } }),
+        ],
+        Deployment: { web: resource("Deployment", "web", { spec: {} }) },
+      };
+      try {
+        validateKubernetes(data);
+        throw new Error("expected a validation error");
+      } catch (err) {
+        expect(err).toBeInstanceOf(SchemaValidationError);
+        const { issues } = err as SchemaValidationError;
+        expect(issues.map((i) => i.path)).toEqual([
+          "Namespace.kind",
+          "Service.1.spec.type",
+          "Deployment.web.spec.selector",
+          "Deployment.web.spec.template",
+        ]);
+      }
+    });
+
+    test("uses the generic schema for kinds named like Object.prototype members", () => {
+      const data = {
+        toString: resource("toString", "a"),
+        constructor: resource("constructor", "b"),
+      };
+      expect(() => validateKubernetes(data)).not.toThrow();
+    });
   });
 
   describe("Edge cases", () => {
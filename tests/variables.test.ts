@@ -0,0 +1,156 @@
+import { test, expect, describe } from "bun:test";
+import { parseHCL } from "../src/parser/parser";
+import type { HCLParseError } from "../src/parser/errors";
+import type { HCLValue } from "../src/parser/parser";
+
+/**
+ * Declares a variable of the given type and returns its value.
+ */
+function typed(type: string, value: HCLValue): HCLValue {
+  const input = `variable "x" {\n  type = ${type}\n}\nvalue = var.x`;
+  return parseHCL(input, { variables: { x: value } }).value ?? null;
+}
+
+describe("Variables", () => {
+  describe("Inputs", () => {
+    const input = `
+      variable "env" {
+        default = "dev"
+      }
+      variable "replicas" {
+        type = number
+        default = 1
+      }
+      locals {
+        name = "web-\${var.env}"
+      }
+      app {
+        name = local.name
+        replicas = var.replicas
+      }
+    `;
+
+    test("uses defaults and leaves declarations out of the result", () => {
+      expect(parseHCL(input)).toEqual({
+        app: { name: "web-dev", replicas: 1 },
+      });
+    });
+
+    test("overrides defaults with given values", () => {
+      const result = parseHCL(input, {
+        variables: { env: "prod", replicas: "5" },
+      });
+      expect(result).toEqual({ app: { name: "web-prod", replicas: 5 } });
+    });
+
+    test("requires a value for variables without a default", () => {
+      const source = 'variable "region" {}\nregion = var.region';
+      expect(() => parseHCL(source)).toThrow(
+        "Variable 'region' has no default value",
+      );
+      expect(parseHCL(source, { variables: { region: "eu-west-1" } })).toEqual({
+        region: "eu-west-1",
+      });
+    });
+
+    test("rejects values for undeclared variables", () => {
+      expect(() => parseHCL(input, { variables: { regoin: "x" } })).toThrow(
+        "Value given for undeclared variable 'regoin'",
+      );
+    });
+
+    test("reports problems in locals nothing references", () => {
+      expect(() => parseHCL("locals {\n  bad = 1 / 0\n}")).toThrow(
+        "Division by zero",
+      );
+    });
+  });
+
+  describe("Types", () => {
+    test("converts primitive values", () => {
+      expect(typed("number", "8080")).toBe(8080);
+      expect(typed("string", 42)).toBe("42");
+      expect(typed("bool", "true")).toBe(true);
+      expect(typed("any", [1, "a"])).toEqual([1, "a"]);
+      expect(typed("number", null)).toBeNull();
+    });
+
+    test("converts collections", () => {
+      expect(typed("list(number)", ["80", 443])).toEqual([80, 443]);
+      expect(typed("set(string)", ["a", "b", "a"])).toEqual(["a", "b"]);
+      expect(typed("map(bool)", { debug: "false" })).toEqual({ debug: false });
+      expect(typed("tuple([string, number])", [1, "2"])).toEqual(["1", 2]);
+    });
+
+    test("converts objects, filling in optional attributes", () => {
+      const type = "object({ name = string, port = optional(number) })";
+      expect(typed(type, { name: "web", extra: true })).toEqual({
+        name: "web",
+        port: null,
+      });
+    });
+
+    test("accepts the quoted types of older HCL", () => {
+      expect(typed('"string"', 1)).toBe("1");
+      expect(typed('"list"', [1])).toEqual([1]);
+    });
+
+    test("describes where a value does not conform", () => {
+      expect(() => typed("number", "many")).toThrow(
+        "Invalid value for variable 'x': expected number, got string",
+      );
+      expect(() => typed("list(number)", [1, "two"])).toThrow(
+        "Invalid value for variable 'x': element 1: expected number, got string",
+      );
+      expect(() => typed("object({ name = string })", { port: 80 })).toThrow(
+        "Invalid value for variable 'x': attribute 'name' is required",
+      );
+      expect(() => typed("object({ toString = string })", {})).toThrow(
+        "Invalid value for variable 'x': attribute 'toString' is required",
+      );
+      expect(() => typed("tuple([string])", ["a", "b"])).toThrow(
+        "expected tuple([string]), got list of 2 elements",
+      );
+    });
+
+    test("checks defaults at the default", () => {
+      try {
+        parseHCL('variable "port" {\n  type = number\n  default = "http"\n}');
+        throw new Error("expected an error");
+      } catch (err) {
+        const parseError = err as HCLParseError;
+        expect(parseError.message).toBe(
+          "Invalid value for variable 'port': expected number, got string",
+        );
+        expect(parseError.loc.line).toBe(3);
+        expect(parseError.loc.column).toBe(13);
+      }
+    });
+
+    test("checks given values against the declared type", () => {
+      try {
+        parseHCL('variable "port" {\n  type = number\n}', {
+          variables: { port: [80] },
+        });
+        throw new Error("expected an error");
+      } catch (err) {
+        const parseError = err as HCLParseError;
+        expect(parseError.message).toBe(
+          "Invalid value for variable 'port': expected number, got list",
+        );
+        expect(parseError.loc.line).toBe(2);
+        expect(parseError.loc.column).toBe(10);
+      }
+    });
+
+    test("rejects unknown types", () => {
+      expect(() => typed("strng", "a")).toThrow("Unknown type 'strng'");
+      expect(() => typed("list(string, number)", [])).toThrow(
+        "Type 'list' expects one argument, got 2",
+      );
+      expect(() => typed("object([string])", {})).toThrow(
+        "Type 'object' expects an object of types",
+      );
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import { test, expect, describe } from "bun:test";
+import { parseHCL } from "../src/parser/parser";
+import type { HCLValue } from "../src/parser/parser";
+import { toYAML } from "../src/converters/converter";
+import { detectService, loadYAML, toHCL } from "../src/converters/hcl";
+import { parseDirective } from "../src/directives/parser";
+import yaml from "js-yaml";
+
+/**
+ * Converts data to HCL and back.
+ */
+function roundTrip(data: Record<string, HCLValue>): Record<string, HCLValue> {
+  return parseHCL(toHCL(data));
+}
+
+describe("YAML to HCL", () => {
+  describe("Writing HCL", () => {
+    test("writes nested objects as blocks and scalars as attributes", () => {
+      const data = { app: { name: "web", replicas: 3, debug: false } };
+      expect(toHCL(data)).toBe(
+        'app {\n  name     = "web"\n  replicas = 3\n  debug    = false\n}\n',
+      );
+      expect(roundTrip(data)).toEqual(data);
+    });
+
+    test("writes lists of objects as lists of object literals", () => {
+      const data = {
+        ports: [80, 443],
+        containers: [{ name: "web", env: [{ name: "A", value: "1" }] }],
+      };
+      const hcl = toHCL(data);
+      expect(hcl).toContain("ports = [80, 443]");
+      expect(hcl).toContain('containers = [\n  {\n    name = "web"');
+      expect(roundTrip(data)).toEqual(data);
+    });
+
+    test("quotes keys that are not identifiers", () => {
+      const data = {
+        labels: { "app.kubernetes.io/name": "web", for: "x", "8080": null },
+        "top level": { a: 1 },
+      };
+      const hcl = toHCL(data);
+      expect(hcl).toContain('"app.kubernetes.io/name" = "web"');
+      expect(hcl).toContain('"for"');
+      expect(hcl).toContain('"top level" = {');
+      expect(roundTrip(data)).toEqual(data);
+    });
+
+    test("keeps root locals as data rather than local values", () => {
+      const data = { locals: { a: 1 }, variable: { b: 2 } };
+      expect(toHCL(data)).toContain("locals = {");
+      expect(roundTrip(data)).toEqual(data);
+    });
+
+    test("escapes strings and template sequences", () => {
+      const data = {
+        quoted: 'say "hi"\\',
+        control: "a\tb\r\u0001",
+        template: "${HOME} %{if} $${x}",
+      };
+      const hcl = toHCL(data);
+      expect(hcl).toContain('"$${HOME} %%{if} $$${x}"');
+      expect(roundTrip(data)).toEqual(data);
+    });
+
+    test("writes multi-line strings as heredocs", () => {
+      const data = {
+        script: '#!/bin/sh\n  echo "${x}"\nEOT\n',
+        indented: "  a\n b\n",
+        single: "line\n",
+      };
+      const hcl = toHCL(data);
+      expect(hcl).toContain("script = <<-EOT2\n  #!/bin/sh\n");
+      expect(hcl).toContain("indented = <<EOT\n  a\n b\nEOT\n");
+      expect(hcl).toContain('single = "line\\n"');
+      expect(roundTrip(data)).toEqual(data);
+    });
+
+    test("writes a use directive for the service", () => {
+      const hcl = toHCL({ a: 1 }, { serviceType: "grafana" });
+      expect(hcl).toBe("use grafana\n\na = 1\n");
+      expect(parseDirective(hcl).serviceType).toBe("grafana");
+    });
+
+    test("writes CloudFormation intrinsics as function calls", () => {
+      const data = {
+        Resources: {
+          Bucket: {
+            Type: "AWS::S3::Bucket",
+            Properties: {
+              BucketName: { "Fn::Sub": "${AWS::StackName}-data" },
+              Tags: [
+                {
+                  Key: "Zone",
+                  Value: { "Fn::Select": [0, { "Fn::GetAZs": "" }] },
+                },
+              ],
+            },
+          },
+        },
+        Outputs: {
+          Arn: { Value: { "Fn::GetAtt": ["Bucket", "Arn"] } },
+          Ids: { Value: { "Fn::Join": [",", ["a", "b"]] } },
+          Bad: { Value: { Ref: 1 } },
+        },
+      };
+      const hcl = toHCL(data, { serviceType: "cloudformation" });
+      expect(hcl).toContain('BucketName = sub("$${AWS::StackName}-data")');
+      expect(hcl).toContain('Value = select(0, get_azs(""))');
+      expect(hcl).toContain('Value = get_att("Bucket", "Arn")');
+      // `join` would compute the string, and `ref` needs a name
+      expect(hcl).toContain('"Fn::Join" = [');
+      expect(hcl).toContain("Ref = 1");
+      expect(parseHCL(hcl)).toEqual(data);
+      expect(toHCL(data)).not.toContain("get_att(");
+    });
+
+    test("rejects numbers HCL can't represent", () => {
+      expect(() => toHCL({ a: Infinity })).toThrow("Cannot write Infinity");
+    });
+  });
+
+  describe("Reading YAML", () => {
+    test("keeps YAML-only types as strings", () => {
+      expect(loadYAML("date: 2024-01-01\nport: 80\n")).toEqual({
+        date: "2024-01-01",
+        port: 80,
+      });
+    });
+
+    test("reads JSON", () => {
+      expect(loadYAML('{"a": [1, {"b": null}]}')).toEqual({
+        a: [1, { b: null }],
+      });
+    });
+
+    test("keys several documents by kind", () => {
+      const text = "kind: Service\n---\nkind: Service\n---\nname: x\n---\n";
+      expect(loadYAML(text)).toEqual({
+        Service: { kind: "Service" },
+        Service_2: { kind: "Service" },
+        document_3: { name: "x" },
+      });
+      expect(
+        Object.keys(loadYAML("kind: constructor\n---\nkind: __proto__\n")),
+      ).toEqual(["constructor", "__proto__"]);
+    });
+
+    test("reads CloudFormation short-form tags as long-form maps", () => {
+      const text = [
+        "A: !Ref Bucket",
+        "B: !GetAtt Db.Endpoint.Address",
+        'C: !Sub ["${X}", { X: !Ref Y }]',
+        "D: !Base64",
+        "  Fn::Sub: x",
+        "E: !GetAZs",
+        "",
+      ].join("\n");
+      expect(loadYAML(text)).toEqual({
+        A: { Ref: "Bucket" },
+        B: { "Fn::GetAtt": ["Db", "Endpoint.Address"] },
+        C: { "Fn::Sub": ["${X}", { X: { Ref: "Y" } }] },
+        D: { "Fn::Base64": { "Fn::Sub": "x" } },
+        E: { "Fn::GetAZs": "" },
+      });
+    });
+
+    test("requires an object", () => {
+      expect(() => loadYAML("- a\n")).toThrow(
+        "Top-level value must be an object",
+      );
+    });
+  });
+
+  describe("Service detection", () => {
+    test("detects CloudFormation, Grafana and Kubernetes", () => {
+      expect(
+        detectService({ Resources: { B: { Type: "AWS::S3::Bucket" } } }),
+      ).toBe("cloudformation");
+      expect(detectService({ dashboard: { title: "x" } })).toBe("grafana");
+      expect(detectService({ apiVersion: "v1", kind: "Service" })).toBe(
+        "kubernetes",
+      );
+      expect(
+        detectService({ web: { apiVersion: "v1", kind: "Service" } }),
+      ).toBe("kubernetes");
+      expect(detectService({ app: { name: "web" } })).toBeNull();
+    });
+  });
+
+  describe("Round trips", () => {
+    for (const example of [
+      "cloudformation/s3-lambda",
+      "grafana/system-dashboard",
+      "kubernetes/web-app",
+    ]) {
+      test(`round-trips the ${example} example`, async () => {
+        const source = await Bun.file(`examples/${example}.hcl`).text();
+        const text = toYAML(parseHCL(source));
+        const data = loadYAML(text);
+        const hcl = toHCL(data, { serviceType: detectService(data) });
+
+        expect(parseDirective(hcl).serviceType).toBe(
+          parseDirective(source).serviceType,
+        );
+        expect(toYAML(parseHCL(hcl))).toBe(text);
+        expect(yaml.load(toYAML(parseHCL(hcl)))).toEqual(data);
+      });
+    }
+
+    test("round-trips keys and strings that look like closing brackets", () => {
+      for (const text of ['a: {"}": 1}', 'l: ["]"]', 'm: {"]": ["}", ","]}']) {
+        const data = loadYAML(text);
+        expect(roundTrip(data)).toEqual(data);
+      }
+    });
+
+    test("round-trips short-form CloudFormation YAML", () => {
+      const text = [
+        "Conditions:",
+        "  IsProd: !Equals",
+        "    - !Ref Env",
+        "    - prod",
+        "Resources:",
+        "  Bucket:",
+        "    Type: AWS::S3::Bucket",
+        "    Properties:",
+        "      BucketName: !If",
+        "        - IsProd",
+        "        - !Sub ${AWS::StackName}-data",
+        "        - !Ref AWS::NoValue",
+        "",
+      ].join("\n");
+      const hcl = toHCL(loadYAML(text), { serviceType: "cloudformation" });
+      expect(hcl).toContain('IsProd = equals(ref("Env"), "prod")');
+      expect(toYAML(parseHCL(hcl), { shortForm: true })).toBe(text);
+    });
+  });
+});